@@ -0,0 +1,149 @@
+// Service worker: caches the app shell so the installed app opens without a
+// network round trip, shows reminder notifications sent through Web Push
+// and handles their "Mark done" action.
+
+const SHELL_CACHE = "app-shell-v1";
+const SHELL_URLS = ["/", "/login", "/manifest.webmanifest", "/icons/192.png"];
+
+// `next dev` serves unhashed bundles that must never be cached. To try the
+// app shell locally, run `next start` and open it on 127.0.0.1 instead.
+const isCachingEnabled = self.location.hostname !== "localhost";
+
+// The proxy redirects between "/" and "/login" depending on the session, and
+// a redirect must not be cached as either page (navigations see them as
+// "opaqueredirect" responses, which aren't ok)
+const isCacheable = (response) => response.ok && !response.redirected;
+
+self.addEventListener("install", (event) => {
+  self.skipWaiting();
+  if (!isCachingEnabled) return;
+  event.waitUntil(
+    (async () => {
+      const cache = await caches.open(SHELL_CACHE);
+      await Promise.all(
+        SHELL_URLS.map(async (url) => {
+          const response = await fetch(url);
+          if (isCacheable(response)) await cache.put(url, response);
+        })
+      );
+    })()
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      const keys = await caches.keys();
+      await Promise.all(
+        keys
+          .filter((key) => key !== SHELL_CACHE)
+          .map((key) => caches.delete(key))
+      );
+      await self.clients.claim();
+    })()
+  );
+});
+
+// Answer from the cache straight away and refresh it in the background; the
+// network is only waited on for things not cached yet
+const staleWhileRevalidate = async (event, cacheKey) => {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(cacheKey, { ignoreSearch: true });
+  const network = fetch(event.request)
+    .then((response) => {
+      if (isCacheable(response)) {
+        cache.put(cacheKey, response.clone());
+      } else if (
+        response.redirected ||
+        response.type === "opaqueredirect"
+      ) {
+        // e.g. "/" after signing out: don't show the old account's habits
+        cache.delete(cacheKey);
+      }
+      return response;
+    })
+    .catch(() => cached ?? Response.error());
+  if (cached) {
+    event.waitUntil(network);
+    return cached;
+  }
+  return network;
+};
+
+// Build output under /_next/static has content hashes in its file names,
+// so a cached copy never goes stale
+const cacheFirst = async (request) => {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+};
+
+self.addEventListener("fetch", (event) => {
+  const url = new URL(event.request.url);
+  if (
+    !isCachingEnabled ||
+    event.request.method !== "GET" ||
+    url.origin !== self.location.origin ||
+    url.pathname.startsWith("/api/") ||
+    url.pathname.startsWith("/auth/")
+  ) {
+    return;
+  }
+
+  if (event.request.mode === "navigate") {
+    // Pages are cached without their query string, so e.g. the "Mark done"
+    // link still opens the cached home page
+    event.respondWith(staleWhileRevalidate(event, url.pathname));
+  } else if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(cacheFirst(event.request));
+  } else {
+    event.respondWith(staleWhileRevalidate(event, event.request));
+  }
+});
+
+self.addEventListener("push", (event) => {
+  const reminder = event.data ? event.data.json() : {};
+  event.waitUntil(
+    self.registration.showNotification(reminder.title || "Don't break the chain!", {
+      body: reminder.body,
+      icon: "/icons/192.png",
+      // One notification per habit; a newer reminder replaces an older one
+      tag: reminder.habitId,
+      data: { habitId: reminder.habitId, period: reminder.period },
+      actions: [{ action: "done", title: "Mark done" }],
+    })
+  );
+});
+
+// "Mark done" completes the habit in an open tab (or a new one) through the
+// page's usual toggle logic; clicking the notification itself just opens the
+// app
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const { habitId, period } = event.notification.data || {};
+  const markDone = event.action === "done" && habitId && period;
+
+  event.waitUntil(
+    (async () => {
+      const windows = await self.clients.matchAll({
+        type: "window",
+        includeUncontrolled: true,
+      });
+      const client = windows[0];
+      if (client) {
+        if (markDone) {
+          client.postMessage({ type: "mark-done", habitId, period });
+        }
+        return client.focus();
+      }
+      return self.clients.openWindow(
+        markDone
+          ? `/?done=${encodeURIComponent(habitId)}&period=${encodeURIComponent(period)}`
+          : "/"
+      );
+    })()
+  );
+});
@@ -0,0 +1,2888 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { useRouter } from "next/navigation";
+import Image from "next/image";
+import confetti from "canvas-confetti";
+import { isCheckInComplete, supabase } from "@/lib/supabase";
+import type { CheckInData, ProfileData } from "@/lib/supabase";
+import {
+  applyPendingMutations,
+  cacheData,
+  flushOutbox,
+  loadCachedData,
+  queueMutation,
+  subscribeToOutbox,
+} from "@/lib/offline";
+import type { CachedData, StreakRow } from "@/lib/offline";
+import type { ExportFormat } from "@/lib/data-export";
+import {
+  CHECK_IN_WINDOW_DAYS,
+  fetchHabitCheckIns,
+  fetchHabitData,
+} from "@/lib/habit-data";
+import {
+  DEFAULT_SCHEDULE,
+  WEEKDAY_NAMES,
+  describeSchedule,
+  getPeriodKind,
+  getStreakUnit,
+  parseSchedule,
+  serializeSchedule,
+} from "@/lib/schedule";
+import type { Frequency, Schedule } from "@/lib/schedule";
+import {
+  addDays,
+  addMonths,
+  getCurrentStreak,
+  getDayForInstant,
+  getFreezesUsedInMonth,
+  getMonthIdentifier,
+  getStreakRuns,
+  getToday,
+  getWeekCompletionCount,
+  getWeekDates,
+  getWeekIdentifier,
+  isScheduledDay,
+  parseDateString,
+} from "@/lib/streak-engine";
+import type { CalendarOptions } from "@/lib/streak-engine";
+import StreakStats from "@/components/StreakStats";
+import Heatmap from "@/components/Heatmap";
+import Journal from "@/components/Journal";
+import { enablePushNotifications, isPushSupported } from "@/lib/push";
+import ProfileSettings from "@/components/ProfileSettings";
+import ImportDialog from "@/components/ImportDialog";
+import ApiTokensDialog from "@/components/ApiTokensDialog";
+import WebhooksDialog from "@/components/WebhooksDialog";
+import ArchivedHabits from "@/components/ArchivedHabits";
+import UndoToast from "@/components/UndoToast";
+import type { HabitImport } from "@/lib/importers";
+import { requestApi } from "@/lib/api-client";
+import { useApiTokens } from "@/app/useApiTokens";
+import { useWebhooks } from "@/app/useWebhooks";
+import {
+  createHistory,
+  recordCommand,
+  redoCommand,
+  undoCommand,
+} from "@/lib/history";
+import {
+  SHARE_CARD_TEMPLATES,
+  SHARE_CARD_THEMES,
+} from "@/lib/share-card-options";
+import type {
+  ShareCardTemplate,
+  ShareCardTheme,
+} from "@/lib/share-card-options";
+import type {
+  RealtimePostgresChangesPayload,
+  User,
+} from "@supabase/supabase-js";
+import { DragDropContext, Droppable, Draggable } from "@hello-pangea/dnd";
+import type { DropResult } from "@hello-pangea/dnd";
+
+interface Streak {
+  id: string;
+  name: string;
+  completedDates: Set<string>;
+  // Check-ins keyed by period identifier, with optional notes and amounts
+  entries: Record<string, CheckInData>;
+  // False while only the recent window of check-ins has been loaded
+  hasFullHistory: boolean;
+  frozenDates: Set<string>;
+  freezeAllowance: number;
+  schedule: Schedule;
+  // Quantitative habits: the amount (in `unit`) each period needs
+  unit: string | null;
+  target: number | null;
+  // Local time (HH:MM) to be reminded at if the habit is still due
+  reminderTime: string | null;
+  // Set when the habit has a public read-only page at /s/<publicSlug>
+  publicSlug: string | null;
+  // When the habit was archived; archived habits stay out of the main list
+  archivedAt: string | null;
+  color?: string;
+  order: number;
+  // Creation timestamp; which day that was depends on the user's timezone
+  createdAt?: string;
+}
+
+// An action that can be undone (or redone) from the toast for a few
+// seconds. `commit` finishes it if the toast closes without an undo.
+interface UndoToastState {
+  id: number;
+  message: string;
+  actionLabel?: string;
+  undo: () => void;
+  commit?: () => void;
+}
+
+// A period's check-in and freeze, as they were before or after a toggle
+interface PeriodState {
+  checkIn: CheckInData | null;
+  isFrozen: boolean;
+}
+
+// A change kept in the session's undo history, with what it changed from
+// and to
+type UndoableChange = { label: string } & (
+  | {
+      kind: "toggle";
+      habitId: string;
+      period: string;
+      before: PeriodState;
+      after: PeriodState;
+    }
+  | { kind: "rename"; habitId: string; before: string; after: string }
+  | { kind: "reorder"; before: string[]; after: string[] }
+  | { kind: "add"; row: StreakRow }
+  | {
+      kind: "archive";
+      habitId: string;
+      before: string | null;
+      after: string | null;
+    }
+);
+
+// Color palette for streaks
+const STREAK_COLORS = [
+  "#ef4444", // red
+  "#3b82f6", // blue
+  "#10b981", // green
+  "#a855f7", // purple
+  "#f97316", // orange
+  "#ec4899", // pink
+  "#14b8a6", // teal
+  "#f59e0b", // amber
+  "#8b5cf6", // violet
+  "#06b6d4", // cyan
+  "#84cc16", // lime
+  "#f43f5e", // rose
+];
+
+// Number of freezes each habit can use per month unless configured otherwise
+const DEFAULT_FREEZE_ALLOWANCE = 2;
+
+// A fresh slug for a habit's public link, e.g. "morning-run-3f9a1c2e"
+const createPublicSlug = (name: string): string => {
+  const base = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 40);
+  const suffix = crypto.randomUUID().slice(0, 8);
+  return base ? `${base}-${suffix}` : `habit-${suffix}`;
+};
+
+// Save a file through a temporary download link
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// Convert a stored row and its check-ins into the shape the page works with
+const toStreak = (
+  row: StreakRow,
+  index: number,
+  checkIns: CheckInData[],
+  hasFullHistory = false
+): Streak => ({
+  id: row.id,
+  name: row.name,
+  completedDates: new Set<string>(
+    checkIns
+      .filter((checkIn) => isCheckInComplete(checkIn, row.target))
+      .map((checkIn) => checkIn.period_id)
+  ),
+  entries: Object.fromEntries(
+    checkIns.map((checkIn) => [checkIn.period_id, checkIn])
+  ),
+  hasFullHistory,
+  frozenDates: new Set<string>(row.frozen_dates || []),
+  freezeAllowance: row.freeze_allowance ?? DEFAULT_FREEZE_ALLOWANCE,
+  schedule: parseSchedule(row.frequency, row.schedule),
+  unit: row.unit ?? null,
+  target: row.target ?? null,
+  reminderTime: row.reminder_time?.slice(0, 5) ?? null,
+  publicSlug: row.public_slug ?? null,
+  archivedAt: row.archived_at ?? null,
+  createdAt: row.created_at ?? undefined,
+  color: STREAK_COLORS[index % STREAK_COLORS.length],
+  order: row.order ?? index,
+});
+
+const toStreaks = (data: CachedData) =>
+  data.streaks.map((row, index) =>
+    toStreak(
+      row,
+      index,
+      data.checkIns.filter((checkIn) => checkIn.habit_id === row.id)
+    )
+  );
+
+// Recompute which periods are complete after the check-ins change
+const withEntries = (
+  streak: Streak,
+  entries: Record<string, CheckInData>
+): Streak => ({
+  ...streak,
+  entries,
+  completedDates: new Set(
+    Object.values(entries)
+      .filter((checkIn) => isCheckInComplete(checkIn, streak.target))
+      .map((checkIn) => checkIn.period_id)
+  ),
+});
+
+const sortStreaks = (streaks: Streak[]) =>
+  [...streaks].sort((a, b) => a.order - b.order);
+
+// Merge a habit inserted, updated or deleted in another session into state.
+// Deletes only carry the primary key, so they're matched by id.
+const applyStreakChange = (
+  streaks: Streak[],
+  change: RealtimePostgresChangesPayload<StreakRow>
+): Streak[] => {
+  if (change.eventType === "DELETE") {
+    return streaks.filter((s) => s.id !== change.old.id);
+  }
+
+  const row = change.new;
+  const existing = streaks.find((s) => s.id === row.id);
+  if (!existing) {
+    // A new habit has no check-ins yet, so its history is complete
+    return sortStreaks([
+      ...streaks,
+      toStreak(row, streaks.length, [], true),
+    ]);
+  }
+
+  return sortStreaks(
+    streaks.map((s) =>
+      s.id === row.id
+        ? withEntries(
+            {
+              ...toStreak(row, 0, [], s.hasFullHistory),
+              color: s.color,
+            },
+            s.entries
+          )
+        : s
+    )
+  );
+};
+
+// Merge a check-in made or removed in another session into its habit
+const applyCheckInChange = (
+  streaks: Streak[],
+  change: RealtimePostgresChangesPayload<CheckInData>
+): Streak[] => {
+  if (change.eventType === "DELETE") {
+    return streaks.map((s) => {
+      const entry = Object.values(s.entries).find(
+        (checkIn) => checkIn.id === change.old.id
+      );
+      if (!entry) return s;
+      const entries = { ...s.entries };
+      delete entries[entry.period_id];
+      return withEntries(s, entries);
+    });
+  }
+
+  const row = change.new;
+  return streaks.map((s) => {
+    if (s.id !== row.habit_id) return s;
+    // Updates can move a check-in to another period (see set_week_start)
+    const entries: Record<string, CheckInData> = Object.fromEntries(
+      Object.entries(s.entries).filter(([, checkIn]) => checkIn.id !== row.id)
+    );
+    return withEntries(s, { ...entries, [row.period_id]: row });
+  });
+};
+
+// Move a weekly habit's check-ins and freezes to the weeks starting on
+// `weekStartsOn`, as set_week_start does on the server
+const moveToWeekStart = (streak: Streak, weekStartsOn: number): Streak => {
+  if (getPeriodKind(streak.schedule) !== "week") return streak;
+
+  const moveWeek = (week: string) => getWeekIdentifier(week, weekStartsOn);
+  return withEntries(
+    {
+      ...streak,
+      frozenDates: new Set(Array.from(streak.frozenDates).map(moveWeek)),
+    },
+    Object.fromEntries(
+      Object.values(streak.entries).map((checkIn) => {
+        const period = moveWeek(checkIn.period_id);
+        return [period, { ...checkIn, period_id: period }];
+      })
+    )
+  );
+};
+
+interface HomeProps {
+  // The signed-in user's id and data as rendered on the server. Both are null
+  // when the server couldn't tell, and may be stale when the page comes from
+  // the offline cache.
+  userId: string | null;
+  initialData: CachedData | null;
+}
+
+export default function Home({ userId, initialData }: HomeProps) {
+  const router = useRouter();
+  const [user, setUser] = useState<Pick<User, "id"> | null>(
+    userId ? { id: userId } : null
+  );
+  const [streaks, setStreaks] = useState<Streak[]>(() =>
+    initialData ? toStreaks(initialData) : []
+  );
+  const [inputValue, setInputValue] = useState("");
+  const [frequency, setFrequency] = useState<Frequency>("daily");
+  const [timesPerWeek, setTimesPerWeek] = useState(3);
+  const [scheduledDays, setScheduledDays] = useState<number[]>([1, 3, 5]);
+  const [intervalDays, setIntervalDays] = useState(2);
+  const [isQuantity, setIsQuantity] = useState(false);
+  const [unit, setUnit] = useState("");
+  const [target, setTarget] = useState(1);
+  const [isAdding, setIsAdding] = useState(false);
+  const [isLoading, setIsLoading] = useState(!initialData);
+  const [isAuthChecking, setIsAuthChecking] = useState(!userId);
+  const [selectedStreakId, setSelectedStreakId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+  const [sharingStreak, setSharingStreak] = useState<Streak | null>(null);
+  const [shareTemplate, setShareTemplate] =
+    useState<ShareCardTemplate>("square");
+  const [shareTheme, setShareTheme] = useState<ShareCardTheme>("light");
+  // Server-rendered image for the share modal; no blob if it failed
+  const [shareCard, setShareCard] = useState<{
+    src: string;
+    blob?: Blob;
+    url?: string;
+  } | null>(null);
+  const [pendingChanges, setPendingChanges] = useState(0);
+  const [profile, setProfile] = useState<ProfileData | null>(
+    initialData?.profile ?? null
+  );
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const apiTokens = useApiTokens();
+  const webhooks = useWebhooks();
+  const [undoToast, setUndoToast] = useState<UndoToastState | null>(null);
+  // A reminder's "Mark done" action waiting for its habit to be loaded
+  const [markDoneRequest, setMarkDoneRequest] = useState<{
+    habitId: string;
+    period: string;
+  } | null>(null);
+  // Days are counted in the user's home timezone, not the browser's
+  const timeZone = profile?.time_zone;
+  const dayStartHour = profile?.day_start_hour;
+  const weekStartsOn = profile?.week_start;
+  const calendarOptions: CalendarOptions = {
+    timeZone,
+    dayStartHour,
+    weekStartsOn,
+  };
+  const historyRequests = useRef(new Set<string>());
+  // Remote changes to the habit being renamed, applied once editing ends
+  const editingIdRef = useRef<string | null>(null);
+  const deferredChanges = useRef<RealtimePostgresChangesPayload<StreakRow>[]>(
+    []
+  );
+  // Undo/redo stacks for this session
+  const changeHistory = useRef(createHistory<UndoableChange>());
+  const [windowDimensions, setWindowDimensions] = useState({
+    width: 0,
+    height: 0,
+  });
+
+  // The proxy has already checked the session, but a cached page may have
+  // been rendered for an earlier one
+  useEffect(() => {
+    const checkAuth = async () => {
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+
+      if (!session) {
+        router.push("/login");
+        return;
+      }
+
+      setUser((current) =>
+        current?.id === session.user.id ? current : session.user
+      );
+      setIsAuthChecking(false);
+    };
+
+    checkAuth();
+
+    // Listen for auth changes
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((event, session) => {
+      if (event === "SIGNED_OUT") {
+        router.push("/login");
+      } else if (session) {
+        setUser((current) =>
+          current?.id === session.user.id ? current : session.user
+        );
+      }
+    });
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [router]);
+
+  const loadStreaks = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      // Show the local copy straight away, then refresh from the server
+      const cached = await loadCachedData(user.id);
+      if (cached.profile) setProfile(cached.profile);
+      if (cached.streaks.length > 0) {
+        setStreaks(toStreaks(cached));
+        setIsLoading(false);
+      }
+
+      // Keep changes that haven't reached the server yet
+      let data = await applyPendingMutations(
+        user.id,
+        await fetchHabitData(supabase, user.id, {
+          timeZone: cached.profile?.time_zone,
+          dayStartHour: cached.profile?.day_start_hour,
+        })
+      );
+      if (!data.profile) {
+        // First visit: count days in the timezone the user is in now, so
+        // they stay put when travelling later
+        const row: ProfileData = {
+          user_id: user.id,
+          time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          day_start_hour: 0,
+          week_start: 1,
+          calendar_token: null,
+          updated_at: new Date().toISOString(),
+        };
+        await queueMutation({ kind: "upsert_profile", userId: user.id, row });
+        data = { ...data, profile: row };
+      }
+      await cacheData(user.id, data);
+      setProfile(data.profile);
+      setStreaks(toStreaks(data));
+    } catch (err) {
+      console.error("Error loading streaks:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  // Load streaks from Supabase when user is authenticated
+  useEffect(() => {
+    if (user) {
+      loadStreaks();
+    }
+  }, [user, loadStreaks]);
+
+  // Fetch a habit's check-ins from before the loaded window
+  const loadFullHistory = useCallback(async (streakId: string) => {
+    if (historyRequests.current.has(streakId)) return;
+    historyRequests.current.add(streakId);
+
+    try {
+      const data = await fetchHabitCheckIns(supabase, streakId);
+
+      setStreaks((current) =>
+        current.map((s) => {
+          if (s.id !== streakId) return s;
+          // Local entries win: they may hold changes not yet synced
+          return {
+            ...withEntries(s, {
+              ...Object.fromEntries(
+                data.map((checkIn) => [checkIn.period_id, checkIn])
+              ),
+              ...s.entries,
+            }),
+            hasFullHistory: true,
+          };
+        })
+      );
+    } catch (err) {
+      console.error("Error loading check-in history:", err);
+      historyRequests.current.delete(streakId);
+    }
+  }, []);
+
+  // Load older history for the selected habit (its heatmap and stats) and for
+  // any habit whose current chain reaches back to the start of the window
+  useEffect(() => {
+    const options = { timeZone, dayStartHour, weekStartsOn };
+    const windowStart = addDays(getToday(options), -CHECK_IN_WINDOW_DAYS + 7);
+
+    streaks.forEach((streak) => {
+      if (streak.hasFullHistory || streak.archivedAt) return;
+
+      const runs = getStreakRuns(streak.completedDates, streak.schedule, {
+        ...options,
+        frozenDates: streak.frozenDates,
+      });
+      const lastRun = runs[runs.length - 1];
+      const chainReachesWindowStart =
+        !!lastRun &&
+        lastRun.start <= windowStart &&
+        getCurrentStreak(streak.completedDates, streak.schedule, {
+          ...options,
+          frozenDates: streak.frozenDates,
+        }) > 0;
+
+      if (streak.id === selectedStreakId || chainReachesWindowStart) {
+        loadFullHistory(streak.id);
+      }
+    });
+  }, [
+    streaks,
+    selectedStreakId,
+    loadFullHistory,
+    timeZone,
+    dayStartHour,
+    weekStartsOn,
+  ]);
+
+  // Track changes waiting to sync and replay them when back online. The
+  // local copy still has any change the server refused, so reload it then.
+  const loadStreaksRef = useRef(loadStreaks);
+  useEffect(() => {
+    loadStreaksRef.current = loadStreaks;
+  });
+  useEffect(() => {
+    const unsubscribe = subscribeToOutbox(setPendingChanges, (message) => {
+      alert(`A change couldn't be saved and was undone: ${message}`);
+      loadStreaksRef.current();
+    });
+    flushOutbox();
+    return unsubscribe;
+  }, []);
+
+  // Merge changes made in other sessions (e.g. on another device) as they
+  // happen. Delete events can't be filtered by user, but they only carry an
+  // id and are matched against the habits already on the page.
+  useEffect(() => {
+    if (!user) return;
+
+    let hasSubscribed = false;
+    const channel = supabase
+      .channel(`streaks:${user.id}`)
+      .on<StreakRow>(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "streaks",
+          filter: `user_id=eq.${user.id}`,
+        },
+        (change) => {
+          const id =
+            change.eventType === "DELETE" ? change.old.id : change.new.id;
+          if (id && id === editingIdRef.current) {
+            deferredChanges.current.push(change);
+            return;
+          }
+          setStreaks((current) => applyStreakChange(current, change));
+        }
+      )
+      .on<StreakRow>(
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table: "streaks" },
+        (change) => {
+          if (change.old.id === editingIdRef.current) {
+            deferredChanges.current.push(change);
+            return;
+          }
+          setStreaks((current) => applyStreakChange(current, change));
+        }
+      )
+      .on<CheckInData>(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "check_ins",
+          filter: `user_id=eq.${user.id}`,
+        },
+        (change) =>
+          setStreaks((current) => applyCheckInChange(current, change))
+      )
+      .on<CheckInData>(
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table: "check_ins" },
+        (change) =>
+          setStreaks((current) => applyCheckInChange(current, change))
+      )
+      .on<ProfileData>(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "profiles",
+          filter: `user_id=eq.${user.id}`,
+        },
+        (change) => {
+          if (change.eventType !== "DELETE") setProfile(change.new);
+        }
+      )
+      .subscribe((status) => {
+        if (status !== "SUBSCRIBED") return;
+        // Changes made while the connection was down aren't replayed, so
+        // reload after reconnecting
+        if (hasSubscribed) loadStreaks();
+        hasSubscribed = true;
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, loadStreaks]);
+
+  // Apply remote changes held back while a habit was being renamed
+  useEffect(() => {
+    editingIdRef.current = editingId;
+    if (editingId || deferredChanges.current.length === 0) return;
+
+    const changes = deferredChanges.current;
+    deferredChanges.current = [];
+    setStreaks((current) => changes.reduce(applyStreakChange, current));
+  }, [editingId]);
+
+  // Handle window resize for chain positioning
+  useEffect(() => {
+    const handleResize = () => {
+      setWindowDimensions({
+        width: window.innerWidth,
+        height: window.innerHeight,
+      });
+    };
+
+    // Set initial dimensions
+    handleResize();
+
+    // Add event listener
+    window.addEventListener("resize", handleResize);
+
+    // Cleanup
+    return () => window.removeEventListener("resize", handleResize);
+  }, []);
+
+  // Put a habit at the top of the list, moving the others down
+  const insertStreak = async (row: StreakRow) => {
+    if (!user) return;
+
+    for (const [index, streak] of streaks.entries()) {
+      await queueMutation({
+        kind: "update",
+        userId: user.id,
+        id: streak.id,
+        values: { order: index + 1 },
+      });
+    }
+    await queueMutation({ kind: "insert", userId: user.id, row });
+
+    setStreaks((current) => [
+      { ...toStreak(row, current.length, [], true), order: 0 },
+      ...current.map((s, idx) => ({ ...s, order: idx + 1 })),
+    ]);
+  };
+
+  // Delete a habit outright; only used to undo adding it
+  const removeStreak = async (streakId: string) => {
+    if (!user) return;
+
+    setStreaks((current) => current.filter((s) => s.id !== streakId));
+    if (selectedStreakId === streakId) {
+      setSelectedStreakId(null);
+    }
+    await queueMutation({ kind: "delete", userId: user.id, id: streakId });
+  };
+
+  const handleAddStreak = async () => {
+    if (inputValue.trim() && user) {
+      setIsAdding(true);
+
+      try {
+        const newSchedule = parseSchedule(frequency, {
+          times: timesPerWeek,
+          days: scheduledDays,
+          interval: intervalDays,
+        });
+        // The id is generated here so the habit can be used before the
+        // insert reaches the server
+        const newStreak: StreakRow = {
+          id: crypto.randomUUID(),
+          user_id: user.id,
+          name: inputValue,
+          frozen_dates: [],
+          freeze_allowance: DEFAULT_FREEZE_ALLOWANCE,
+          ...serializeSchedule(newSchedule),
+          unit: isQuantity ? unit.trim() || null : null,
+          target: isQuantity && target > 0 ? target : null,
+          reminder_time: null,
+          public_slug: null,
+          archived_at: null,
+          order: 0, // New streak goes to the top
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        };
+
+        // Let the input animate out before the habit appears
+        await new Promise((resolve) => setTimeout(resolve, 400));
+        await insertStreak(newStreak);
+        recordChange({
+          label: `Added "${newStreak.name}"`,
+          kind: "add",
+          row: newStreak,
+        });
+
+        setInputValue("");
+        setFrequency(DEFAULT_SCHEDULE.type);
+        setIsQuantity(false);
+        setUnit("");
+        setTarget(1);
+        setIsAdding(false);
+      } catch (err) {
+        console.error("Error adding streak:", err);
+        setIsAdding(false);
+      }
+    }
+  };
+
+  const handleProfileSave = async (
+    changes: Pick<ProfileData, "time_zone" | "day_start_hour" | "week_start">
+  ) => {
+    if (!user || !profile) return;
+
+    const row: ProfileData = {
+      ...profile,
+      ...changes,
+      updated_at: new Date().toISOString(),
+    };
+    setProfile(row);
+    await queueMutation({ kind: "upsert_profile", userId: user.id, row });
+
+    // Weekly check-ins are stored under their week's first day, so they
+    // move along with the week start
+    if (changes.week_start !== profile.week_start) {
+      setStreaks((current) =>
+        current.map((s) => moveToWeekStart(s, changes.week_start))
+      );
+      await queueMutation({
+        kind: "set_week_start",
+        userId: user.id,
+        weekStart: changes.week_start,
+      });
+    }
+  };
+
+  // Turn the calendar feed on (with a new secret link) or off
+  const handleCalendarFeedChange = async (enabled: boolean) => {
+    if (!user || !profile) return;
+
+    const row: ProfileData = {
+      ...profile,
+      calendar_token: enabled ? crypto.randomUUID().replace(/-/g, "") : null,
+      updated_at: new Date().toISOString(),
+    };
+    setProfile(row);
+    await queueMutation({ kind: "upsert_profile", userId: user.id, row });
+  };
+
+  const handleImport = async (habits: HabitImport[]): Promise<boolean> => {
+    try {
+      await requestApi("/api/import", { method: "POST", body: { habits } });
+      await loadStreaks();
+      return true;
+    } catch (err) {
+      console.error("Error importing habits:", err);
+      alert(`Failed to import: ${(err as Error).message}`);
+      // A partial import may have added habits
+      await loadStreaks();
+      return false;
+    }
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    if (
+      pendingChanges > 0 &&
+      !confirm(
+        "Some changes haven't synced yet and won't be in the export. Export anyway?"
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+      const response = await fetch(`/api/export?format=${format}`, {
+        headers: { Authorization: `Bearer ${session?.access_token}` },
+      });
+      if (!response.ok) {
+        throw new Error(`Export request failed (${response.status})`);
+      }
+      downloadBlob(
+        await response.blob(),
+        `dont-break-the-chain-${getToday(calendarOptions)}.${format}`
+      );
+    } catch (err) {
+      console.error("Error exporting data:", err);
+      alert("Failed to export your data. Please try again.");
+    }
+  };
+
+  const handleSignOut = async () => {
+    await supabase.auth.signOut();
+  };
+
+  const writeName = async (streakId: string, name: string) => {
+    if (!user || !streaks.some((s) => s.id === streakId)) return;
+
+    setStreaks((current) =>
+      current.map((s) => (s.id === streakId ? { ...s, name } : s))
+    );
+    await queueMutation({
+      kind: "update",
+      userId: user.id,
+      id: streakId,
+      values: {
+        name,
+        updated_at: new Date().toISOString(),
+      },
+    });
+  };
+
+  const handleEditStreak = async (streakId: string) => {
+    const streak = streaks.find((s) => s.id === streakId);
+    if (!editingName.trim() || !streak) return;
+
+    setEditingId(null);
+    setEditingName("");
+    if (editingName !== streak.name) {
+      recordChange({
+        label: `Renamed "${streak.name}" to "${editingName}"`,
+        kind: "rename",
+        habitId: streakId,
+        before: streak.name,
+        after: editingName,
+      });
+    }
+    await writeName(streakId, editingName);
+  };
+
+  const showUndoToast = (toast: Omit<UndoToastState, "id">) => {
+    // A newer action ends the previous one's undo window
+    undoToast?.commit?.();
+    setUndoToast({ ...toast, id: Date.now() });
+  };
+
+  // Keep a change in the undo history and offer to undo it right away
+  const recordChange = (change: UndoableChange) => {
+    changeHistory.current = recordCommand(changeHistory.current, change);
+    showUndoToast({
+      message: change.label,
+      undo: () => historyActions.current.undo(),
+    });
+  };
+
+  // Apply a change from the history in either direction. Habits deleted
+  // since then are skipped.
+  const applyChange = async (change: UndoableChange, isUndo: boolean) => {
+    switch (change.kind) {
+      case "toggle":
+        await writePeriod(
+          change.habitId,
+          change.period,
+          isUndo ? change.before : change.after
+        );
+        break;
+      case "rename":
+        await writeName(change.habitId, isUndo ? change.before : change.after);
+        break;
+      case "reorder":
+        await writeOrder(isUndo ? change.before : change.after);
+        break;
+      case "add":
+        if (isUndo) {
+          await removeStreak(change.row.id);
+        } else if (!streaks.some((s) => s.id === change.row.id)) {
+          await insertStreak(change.row);
+        }
+        break;
+      case "archive":
+        await writeArchived(
+          change.habitId,
+          isUndo ? change.before : change.after
+        );
+        break;
+    }
+  };
+
+  const undo = async () => {
+    const step = undoCommand(changeHistory.current);
+    if (!step) return;
+
+    changeHistory.current = step.history;
+    showUndoToast({
+      message: `Undid: ${step.command.label}`,
+      actionLabel: "Redo",
+      undo: () => historyActions.current.redo(),
+    });
+    await applyChange(step.command, true);
+  };
+
+  const redo = async () => {
+    const step = redoCommand(changeHistory.current);
+    if (!step) return;
+
+    changeHistory.current = step.history;
+    showUndoToast({
+      message: step.command.label,
+      undo: () => historyActions.current.undo(),
+    });
+    await applyChange(step.command, false);
+  };
+
+  // Toasts and the keyboard shortcuts outlive the render they were set up
+  // in, so they go through the latest undo and redo
+  const historyActions = useRef({ undo, redo });
+  useEffect(() => {
+    historyActions.current = { undo, redo };
+  });
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on Mac), except in text fields, which keep
+  // their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== "z") return;
+      if (
+        e.target instanceof HTMLElement &&
+        e.target.closest("input, textarea, select, [contenteditable='true']")
+      ) {
+        return;
+      }
+
+      e.preventDefault();
+      if (e.shiftKey) {
+        historyActions.current.redo();
+      } else {
+        historyActions.current.undo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  const writeArchived = async (streakId: string, archivedAt: string | null) => {
+    if (!user || !streaks.some((s) => s.id === streakId)) return;
+
+    setStreaks((current) =>
+      current.map((s) => (s.id === streakId ? { ...s, archivedAt } : s))
+    );
+    if (archivedAt && selectedStreakId === streakId) {
+      setSelectedStreakId(null);
+    }
+
+    await queueMutation({
+      kind: "update",
+      userId: user.id,
+      id: streakId,
+      values: {
+        archived_at: archivedAt,
+        updated_at: new Date().toISOString(),
+      },
+    });
+  };
+
+  // Hide a habit from the main list, keeping its history so it can be
+  // restored from the archived view
+  const handleArchiveStreak = async (streakId: string, isArchived: boolean) => {
+    const streak = streaks.find((s) => s.id === streakId);
+    if (!streak) return;
+
+    const archivedAt = isArchived ? new Date().toISOString() : null;
+    recordChange({
+      label: `${isArchived ? "Archived" : "Restored"} "${streak.name}"`,
+      kind: "archive",
+      habitId: streakId,
+      before: streak.archivedAt,
+      after: archivedAt,
+    });
+    await writeArchived(streakId, archivedAt);
+  };
+
+  // Permanently delete an archived habit. The delete is only sent once the
+  // undo toast closes.
+  const handlePurgeStreak = (streakId: string) => {
+    const streak = streaks.find((s) => s.id === streakId);
+    if (
+      !streak ||
+      !user ||
+      !confirm(
+        `Delete "${streak.name}" and all of its history? Once the undo notice closes this can't be undone.`
+      )
+    ) {
+      return;
+    }
+
+    const userId = user.id;
+    setStreaks((current) => current.filter((s) => s.id !== streakId));
+    showUndoToast({
+      message: `Deleted "${streak.name}"`,
+      undo: () => setStreaks((current) => sortStreaks([...current, streak])),
+      commit: () => {
+        queueMutation({ kind: "delete", userId, id: streakId }).catch((err) =>
+          console.error("Error deleting streak:", err)
+        );
+      },
+    });
+  };
+
+  const startEditing = (streak: Streak) => {
+    setEditingId(streak.id);
+    setEditingName(streak.name);
+  };
+
+  const handleStreakCardClick = (streakId: string) => {
+    // Toggle selection - if already selected, deselect; otherwise select
+    setSelectedStreakId(selectedStreakId === streakId ? null : streakId);
+  };
+
+  // Archived habits stay loaded for the archived view but are left out of
+  // the main list and the chains
+  const activeStreaks = streaks.filter((streak) => !streak.archivedAt);
+  const archivedStreaks = streaks.filter((streak) => streak.archivedAt);
+
+  // Put the main list in the given order of habit ids; habits missing from
+  // it (added since) go last
+  const writeOrder = async (ids: string[]) => {
+    const byId = new Map(activeStreaks.map((s) => [s.id, s]));
+    const items = [
+      ...ids.flatMap((id) => byId.get(id) ?? []),
+      ...activeStreaks.filter((s) => !ids.includes(s.id)),
+    ];
+
+    // Update local state with new order
+    const updatedItems = items.map((item, index) => ({
+      ...item,
+      order: index,
+    }));
+    const order = new Map(updatedItems.map((item) => [item.id, item.order]));
+    setStreaks((current) => [
+      ...current
+        .filter((s) => order.has(s.id))
+        .map((s) => ({ ...s, order: order.get(s.id)! }))
+        .sort((a, b) => a.order - b.order),
+      ...current.filter((s) => !order.has(s.id)),
+    ]);
+
+    // Update database
+    if (!user) return;
+    for (const streak of updatedItems) {
+      await queueMutation({
+        kind: "update",
+        userId: user.id,
+        id: streak.id,
+        values: { order: streak.order },
+      });
+    }
+  };
+
+  const handleDragEnd = async (result: DropResult) => {
+    if (
+      !result.destination ||
+      result.destination.index === result.source.index
+    ) {
+      return;
+    }
+
+    const before = activeStreaks.map((s) => s.id);
+    const after = [...before];
+    const [movedId] = after.splice(result.source.index, 1);
+    after.splice(result.destination.index, 0, movedId);
+
+    const moved = activeStreaks[result.source.index];
+    recordChange({
+      label: `Moved "${moved.name}"`,
+      kind: "reorder",
+      before,
+      after,
+    });
+    await writeOrder(after);
+  };
+
+  const handleShareStreak = (streak: Streak) => {
+    setSharingStreak(streak);
+  };
+
+  // Fetch the card for the share modal whenever its template or theme changes
+  const shareCardSrc = sharingStreak
+    ? `/api/share-card/${sharingStreak.id}?${new URLSearchParams({
+        template: shareTemplate,
+        theme: shareTheme,
+        color: sharingStreak.color || "#16a34a",
+      })}`
+    : null;
+
+  useEffect(() => {
+    if (!shareCardSrc) return;
+    let isCancelled = false;
+    let url: string | undefined;
+
+    (async () => {
+      try {
+        const {
+          data: { session },
+        } = await supabase.auth.getSession();
+        const response = await fetch(shareCardSrc, {
+          headers: { Authorization: `Bearer ${session?.access_token}` },
+        });
+        if (!response.ok) {
+          throw new Error(`Share card request failed (${response.status})`);
+        }
+        const blob = await response.blob();
+        if (isCancelled) return;
+        url = URL.createObjectURL(blob);
+        setShareCard({ src: shareCardSrc, blob, url });
+      } catch (err) {
+        console.error("Error creating share card:", err);
+        if (!isCancelled) setShareCard({ src: shareCardSrc });
+      }
+    })();
+
+    return () => {
+      isCancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [shareCardSrc]);
+
+  const currentShareCard = shareCard?.src === shareCardSrc ? shareCard : null;
+
+  // Turn a habit's public page on (with a new link) or off
+  const handlePublicLinkChange = async (streakId: string, enabled: boolean) => {
+    const streak = streaks.find((s) => s.id === streakId);
+    if (!streak || !user) return;
+
+    const publicSlug = enabled ? createPublicSlug(streak.name) : null;
+    setStreaks((current) =>
+      current.map((s) => (s.id === streakId ? { ...s, publicSlug } : s))
+    );
+    await queueMutation({
+      kind: "update",
+      userId: user.id,
+      id: streakId,
+      values: {
+        public_slug: publicSlug,
+        updated_at: new Date().toISOString(),
+      },
+    });
+  };
+
+  const copyLink = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+    } catch {
+      prompt("Copy this link:", url);
+    }
+  };
+
+  const downloadShareCard = async () => {
+    const blob = currentShareCard?.blob;
+    if (!sharingStreak || !blob) return;
+
+    const fileName = `${sharingStreak.name
+      .replace(/[^a-z0-9]/gi, "-")
+      .toLowerCase()}-${shareTemplate}.png`;
+
+    // Try Web Share API first (for mobile)
+    const file = new File([blob], fileName, { type: "image/png" });
+    if (navigator.share && navigator.canShare?.({ files: [file] })) {
+      try {
+        await navigator.share({ files: [file], title: "" });
+        setSharingStreak(null);
+        return;
+      } catch (err) {
+        if ((err as Error).name === "AbortError") {
+          return; // User cancelled
+        }
+      }
+    }
+
+    // Fallback: Download the image
+    downloadBlob(blob, fileName);
+    setSharingStreak(null);
+  };
+
+  const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter") {
+      handleAddStreak();
+    }
+  };
+
+  const toggleDate = async (
+    streakId: string,
+    date: string,
+    button?: HTMLElement,
+    note?: string
+  ) => {
+    const streak = streaks.find((s) => s.id === streakId);
+    if (!streak || !user) return;
+
+    const entry = streak.entries[date];
+    const wasCompleted = streak.completedDates.has(date);
+    let value = entry?.value ?? null;
+    const newNote =
+      note !== undefined ? note.trim() || null : entry?.note ?? null;
+
+    // Quantitative habits record an amount; the period only counts once the
+    // target is met
+    if (streak.target && note === undefined) {
+      const input = prompt(
+        `How much for this ${getPeriodKind(streak.schedule)}? (target: ${
+          streak.target
+        }${streak.unit ? ` ${streak.unit}` : ""})`,
+        String(value ?? "")
+      );
+      if (input === null) return;
+
+      const amount = Number(input);
+      value =
+        input.trim() === "" || !Number.isFinite(amount) || amount <= 0
+          ? null
+          : amount;
+    }
+
+    // Adding a note marks a plain habit done (and keeps it done)
+    const isCompleted = streak.target
+      ? (value ?? 0) >= streak.target
+      : note !== undefined || !wasCompleted;
+    // Quantitative habits keep a check-in for partial amounts and notes too
+    const keepCheckIn = streak.target
+      ? value !== null || newNote !== null
+      : isCompleted;
+
+    const checkIn: CheckInData | null = keepCheckIn
+      ? {
+          id: entry?.id ?? crypto.randomUUID(),
+          habit_id: streakId,
+          user_id: user.id,
+          period_id: date,
+          value,
+          note: newNote,
+          created_at: entry?.created_at ?? new Date().toISOString(),
+        }
+      : null;
+    const isFrozen = streak.frozenDates.has(date);
+
+    if (isCompleted && !wasCompleted) {
+      // Trigger confetti with streak color! (from the middle of the screen
+      // when completed from a reminder)
+      const rect = button?.getBoundingClientRect();
+      const x = rect ? (rect.left + rect.width / 2) / window.innerWidth : 0.5;
+      const y = rect ? (rect.top + rect.height / 2) / window.innerHeight : 0.5;
+
+      // Generate color variants based on the streak color
+      const baseColor = streak.color || "#16a34a";
+
+      confetti({
+        particleCount: 100,
+        spread: 70,
+        origin: { x, y },
+        colors: [baseColor, "#ffffff", "#ffd700"],
+        ticks: 200,
+      });
+    }
+
+    const change: UndoableChange = {
+      label: `${
+        isCompleted === wasCompleted
+          ? "Updated"
+          : isCompleted
+          ? "Checked off"
+          : "Unchecked"
+      } "${streak.name}" for ${date}`,
+      kind: "toggle",
+      habitId: streakId,
+      period: date,
+      before: { checkIn: entry ?? null, isFrozen },
+      // A completed day no longer needs its freeze
+      after: { checkIn, isFrozen: isFrozen && !isCompleted },
+    };
+    recordChange(change);
+    await writePeriod(streakId, date, change.after);
+  };
+
+  // Set a period's check-in and freeze, locally and in the database. Used
+  // by toggles and to undo or redo them.
+  const writePeriod = async (
+    streakId: string,
+    date: string,
+    { checkIn, isFrozen }: PeriodState
+  ) => {
+    const streak = streaks.find((s) => s.id === streakId);
+    if (!streak || !user) return;
+
+    const entry = streak.entries[date];
+    const applyPeriod = (s: Streak): Streak => {
+      const entries = { ...s.entries };
+      if (checkIn) {
+        entries[date] = checkIn;
+      } else {
+        delete entries[date];
+      }
+      const frozenDates = new Set(s.frozenDates);
+      if (isFrozen) {
+        frozenDates.add(date);
+      } else {
+        frozenDates.delete(date);
+      }
+      return { ...withEntries(s, entries), frozenDates };
+    };
+    const newFrozenDates = applyPeriod(streak).frozenDates;
+
+    // Update local state, on top of any changes that arrived meanwhile
+    setStreaks((current) =>
+      current.map((s) => (s.id === streakId ? applyPeriod(s) : s))
+    );
+
+    // Sync with Supabase: one row per check-in, so only this period is sent
+    if (checkIn) {
+      await queueMutation({
+        kind: "upsert_check_in",
+        userId: user.id,
+        row: checkIn,
+      });
+    } else if (entry) {
+      await queueMutation({
+        kind: "delete_check_in",
+        userId: user.id,
+        habitId: streakId,
+        periodId: date,
+      });
+    }
+
+    if (isFrozen !== streak.frozenDates.has(date)) {
+      await queueMutation({
+        kind: "update",
+        userId: user.id,
+        id: streakId,
+        values: {
+          frozen_dates: Array.from(newFrozenDates),
+          updated_at: new Date().toISOString(),
+        },
+        base: { frozen_dates: Array.from(streak.frozenDates) },
+      });
+    }
+  };
+
+  // Reminder notifications' "Mark done" action arrives as a message from the
+  // service worker, or as URL parameters when it had to open a new tab
+  useEffect(() => {
+    if (!isPushSupported()) return;
+
+    const params = new URLSearchParams(window.location.search);
+    const habitId = params.get("done");
+    const period = params.get("period");
+    if (habitId && period) {
+      setMarkDoneRequest({ habitId, period });
+      window.history.replaceState(null, "", "/");
+    }
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === "mark-done") {
+        setMarkDoneRequest({
+          habitId: event.data.habitId,
+          period: event.data.period,
+        });
+      }
+    };
+    navigator.serviceWorker.addEventListener("message", handleMessage);
+    return () =>
+      navigator.serviceWorker.removeEventListener("message", handleMessage);
+  }, []);
+
+  // Complete the habit through the same logic as clicking its box, unless
+  // it's already done
+  const toggleDateRef = useRef(toggleDate);
+  useEffect(() => {
+    toggleDateRef.current = toggleDate;
+  });
+  useEffect(() => {
+    if (!markDoneRequest || isLoading) return;
+
+    const streak = streaks.find((s) => s.id === markDoneRequest.habitId);
+    setMarkDoneRequest(null);
+    if (streak && !streak.completedDates.has(markDoneRequest.period)) {
+      toggleDateRef.current(streak.id, markDoneRequest.period);
+    }
+  }, [markDoneRequest, isLoading, streaks]);
+
+  // Mark or unmark a period as frozen (a rest day that keeps the chain)
+  const toggleFreeze = async (streakId: string, date: string) => {
+    const streak = streaks.find((s) => s.id === streakId);
+    if (!streak || streak.completedDates.has(date)) return;
+
+    const newFrozenDates = new Set(streak.frozenDates);
+    const isFreezing = !newFrozenDates.has(date);
+
+    if (isFreezing) {
+      const month = getMonthIdentifier(date);
+      if (
+        getFreezesUsedInMonth(streak.frozenDates, month) >=
+        streak.freezeAllowance
+      ) {
+        alert(
+          `You've used all ${streak.freezeAllowance} freezes for this month.`
+        );
+        return;
+      }
+      newFrozenDates.add(date);
+    } else {
+      newFrozenDates.delete(date);
+    }
+
+    setStreaks((current) =>
+      current.map((s) => {
+        if (s.id !== streakId) return s;
+        const frozenDates = new Set(s.frozenDates);
+        if (isFreezing) {
+          frozenDates.add(date);
+        } else {
+          frozenDates.delete(date);
+        }
+        return { ...s, frozenDates };
+      })
+    );
+
+    if (!user) return;
+    await queueMutation({
+      kind: "update",
+      userId: user.id,
+      id: streakId,
+      values: {
+        frozen_dates: Array.from(newFrozenDates),
+        updated_at: new Date().toISOString(),
+      },
+      base: { frozen_dates: Array.from(streak.frozenDates) },
+    });
+  };
+
+  const handleFreezeAllowanceChange = async (
+    streakId: string,
+    allowance: number
+  ) => {
+    const freezeAllowance = Math.max(0, Math.min(allowance, 31));
+
+    setStreaks((current) =>
+      current.map((s) => (s.id === streakId ? { ...s, freezeAllowance } : s))
+    );
+
+    if (!user) return;
+    await queueMutation({
+      kind: "update",
+      userId: user.id,
+      id: streakId,
+      values: {
+        freeze_allowance: freezeAllowance,
+        updated_at: new Date().toISOString(),
+      },
+    });
+  };
+
+  const handleReminderChange = async (
+    streakId: string,
+    reminderTime: string | null
+  ) => {
+    if (!user) return;
+
+    if (reminderTime) {
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+      const isEnabled =
+        !!session &&
+        (await enablePushNotifications(session.access_token).catch((err) => {
+          console.error("Error enabling notifications:", err);
+          return false;
+        }));
+      if (!isEnabled) {
+        alert(
+          "Reminders need notifications. Allow them for this site in your browser settings and try again."
+        );
+        return;
+      }
+    }
+
+    setStreaks((current) =>
+      current.map((s) => (s.id === streakId ? { ...s, reminderTime } : s))
+    );
+    await queueMutation({
+      kind: "update",
+      userId: user.id,
+      id: streakId,
+      values: {
+        reminder_time: reminderTime,
+        updated_at: new Date().toISOString(),
+      },
+    });
+  };
+
+  const todayString = getToday(calendarOptions);
+
+  const getDateBoxes = () => {
+    const boxes = [];
+    for (let i = 6; i >= 0; i--) {
+      boxes.push(addDays(todayString, -i));
+    }
+    return boxes;
+  };
+
+  const getWeekBoxes = () => {
+    const boxes = [];
+    const currentWeek = getWeekIdentifier(todayString, weekStartsOn);
+    for (let i = 6; i >= 0; i--) {
+      boxes.push(addDays(currentWeek, -i * 7));
+    }
+    return boxes;
+  };
+
+  const getMonthBoxes = () => {
+    const boxes = [];
+    const currentMonth = getMonthIdentifier(todayString);
+    for (let i = 6; i >= 0; i--) {
+      boxes.push(addMonths(currentMonth, -i));
+    }
+    return boxes;
+  };
+
+  const dateBoxes = getDateBoxes();
+
+  // Generate chains - one chain per streak wrapping around the window
+  const generateChains = () => {
+    const chains: Array<{
+      color: string;
+      links: Array<{
+        x: number;
+        y: number;
+        rotation: number;
+        isHorizontal: boolean;
+      }>;
+      zIndex: number;
+    }> = [];
+
+    const linkWidth = 25; // Width of each chain link (50% smaller)
+    const linkHeight = 15; // Height of each chain link (50% smaller)
+    const padding = 10; // Distance from edge (closer to window edge)
+
+    // Process each streak
+    activeStreaks.forEach((streak, streakIndex) => {
+      const streakCount = getCurrentStreak(
+        streak.completedDates,
+        streak.schedule,
+        { ...calendarOptions, frozenDates: streak.frozenDates }
+      );
+      const color = streak.color || "#gray";
+
+      if (streakCount === 0) return;
+
+      const links: Array<{
+        x: number;
+        y: number;
+        rotation: number;
+        isHorizontal: boolean;
+      }> = [];
+
+      // Add a link for each day in the streak, wrapping around the window
+      // All chains start from the same position (no offset)
+      for (let i = 0; i < streakCount; i++) {
+        const position = calculateChainLinkPosition(
+          i,
+          linkWidth,
+          linkHeight,
+          padding // Same padding for all chains so they start at the same spot
+        );
+        links.push(position);
+      }
+
+      chains.push({
+        color,
+        links,
+        zIndex: activeStreaks.length - streakIndex, // First streak has highest z-index
+      });
+    });
+
+    return chains;
+  };
+
+  // Calculate position for each link going clockwise from top center
+  const calculateChainLinkPosition = (
+    index: number,
+    linkWidth: number,
+    linkHeight: number,
+    padding: number
+  ) => {
+    if (windowDimensions.width === 0 || windowDimensions.height === 0) {
+      return { x: 0, y: 0, rotation: 0, isHorizontal: true };
+    }
+
+    const width = windowDimensions.width;
+    const height = windowDimensions.height;
+
+    // Calculate perimeter
+    const topWidth = width - padding * 2;
+    const rightHeight = height - padding * 2;
+    const bottomWidth = width - padding * 2;
+    const leftHeight = height - padding * 2;
+    const perimeter = topWidth + rightHeight + bottomWidth + leftHeight;
+
+    // Calculate spacing between links (they interlock, so alternate positioning)
+    const spacing = linkWidth * 0.8; // Links overlap slightly to interlock
+    const position = (index * spacing) % perimeter;
+
+    // Determine which side and position
+    if (position < topWidth) {
+      // Top edge (left to right) - horizontal links
+      return {
+        x: width / 2 - topWidth / 2 + position,
+        y: padding,
+        rotation: 0,
+        isHorizontal: true,
+      };
+    } else if (position < topWidth + rightHeight) {
+      // Right edge (top to bottom) - vertical links
+      const yPos = position - topWidth;
+      return {
+        x: width - padding,
+        y: padding + yPos,
+        rotation: 90,
+        isHorizontal: false,
+      };
+    } else if (position < topWidth + rightHeight + bottomWidth) {
+      // Bottom edge (right to left) - horizontal links
+      const xPos = position - topWidth - rightHeight;
+      return {
+        x: width - padding - xPos,
+        y: height - padding,
+        rotation: 0,
+        isHorizontal: true,
+      };
+    } else {
+      // Left edge (bottom to top) - vertical links
+      const yPos = position - topWidth - rightHeight - bottomWidth;
+      return {
+        x: padding,
+        y: height - padding - yPos,
+        rotation: 90,
+        isHorizontal: false,
+      };
+    }
+  };
+
+  const chains = generateChains();
+
+  // Public page of the habit in the share modal, if it has one
+  const sharingPublicSlug =
+    sharingStreak &&
+    streaks.find((s) => s.id === sharingStreak.id)?.publicSlug;
+  const sharingPublicUrl =
+    sharingPublicSlug &&
+    `${window.location.origin}/s/${sharingPublicSlug}`;
+
+  // Show loading while checking authentication
+  if (isAuthChecking) {
+    return (
+      <div className="min-h-screen bg-linear-to-br from-amber-50 via-orange-50 to-red-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="inline-block animate-spin rounded-full h-12 w-12 border-4 border-gray-300 border-t-green-500"></div>
+          <p className="mt-4 text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {isSettingsOpen && profile && (
+        <ProfileSettings
+          profile={profile}
+          onSave={handleProfileSave}
+          onExport={handleExport}
+          onImport={() => {
+            setIsSettingsOpen(false);
+            setIsImportOpen(true);
+          }}
+          onApiTokens={() => {
+            setIsSettingsOpen(false);
+            apiTokens.open();
+          }}
+          onWebhooks={() => {
+            setIsSettingsOpen(false);
+            webhooks.open();
+          }}
+          onCalendarFeedChange={handleCalendarFeedChange}
+          onCopyLink={copyLink}
+          onClose={() => setIsSettingsOpen(false)}
+        />
+      )}
+
+      {isImportOpen && (
+        <ImportDialog
+          existingHabits={streaks}
+          weekStartsOn={weekStartsOn ?? 1}
+          onImport={handleImport}
+          onClose={() => setIsImportOpen(false)}
+        />
+      )}
+
+      {apiTokens.isOpen && (
+        <ApiTokensDialog
+          tokens={apiTokens.tokens}
+          habits={streaks}
+          onCreate={apiTokens.create}
+          onRevoke={apiTokens.revoke}
+          onCopy={copyLink}
+          onClose={apiTokens.close}
+        />
+      )}
+
+      {webhooks.isOpen && (
+        <WebhooksDialog
+          webhooks={webhooks.webhooks}
+          deliveries={webhooks.deliveries}
+          onCreate={webhooks.create}
+          onUpdate={webhooks.update}
+          onDelete={webhooks.remove}
+          onRefresh={webhooks.refresh}
+          onCopy={copyLink}
+          onClose={webhooks.close}
+        />
+      )}
+
+      {undoToast && (
+        <UndoToast
+          key={undoToast.id}
+          message={undoToast.message}
+          actionLabel={undoToast.actionLabel}
+          onAction={() => {
+            undoToast.undo();
+            setUndoToast(null);
+          }}
+          onExpire={() => {
+            undoToast.commit?.();
+            setUndoToast(null);
+          }}
+        />
+      )}
+
+      {/* Share Card Modal */}
+      {sharingStreak && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4 overflow-y-auto"
+          onClick={() => setSharingStreak(null)}
+        >
+          <div
+            className="bg-white rounded-2xl p-6 max-w-3xl w-full my-8"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex justify-between items-center mb-4">
+              <button
+                onClick={() => setSharingStreak(null)}
+                style={{ color: "#9ca3af" }}
+                onMouseEnter={(e) => {
+                  e.currentTarget.style.color = "#4b5563";
+                }}
+                onMouseLeave={(e) => {
+                  e.currentTarget.style.color = "#9ca3af";
+                }}
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  className="h-6 w-6"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M6 18L18 6M6 6l12 12"
+                  />
+                </svg>
+              </button>
+            </div>
+
+            {/* Template and theme */}
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+              <div className="flex gap-1">
+                {(
+                  Object.keys(SHARE_CARD_TEMPLATES) as ShareCardTemplate[]
+                ).map((template) => (
+                  <button
+                    key={template}
+                    onClick={() => setShareTemplate(template)}
+                    className={`px-3 py-1 text-sm rounded-lg ${
+                      shareTemplate === template
+                        ? "bg-gray-900 text-white"
+                        : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                    }`}
+                  >
+                    {SHARE_CARD_TEMPLATES[template].label}
+                  </button>
+                ))}
+              </div>
+              <div className="flex gap-1">
+                {SHARE_CARD_THEMES.map((theme) => (
+                  <button
+                    key={theme}
+                    onClick={() => setShareTheme(theme)}
+                    className={`px-3 py-1 text-sm rounded-lg capitalize ${
+                      shareTheme === theme
+                        ? "bg-gray-900 text-white"
+                        : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                    }`}
+                  >
+                    {theme}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* The shareable card */}
+            <div
+              className="relative rounded-3xl overflow-hidden mb-4 mx-auto flex items-center justify-center bg-gray-100"
+              style={{
+                aspectRatio: `${SHARE_CARD_TEMPLATES[shareTemplate].width} / ${SHARE_CARD_TEMPLATES[shareTemplate].height}`,
+                width: "100%",
+                maxWidth:
+                  shareTemplate === "story"
+                    ? "320px"
+                    : shareTemplate === "square"
+                    ? "600px"
+                    : "100%",
+              }}
+            >
+              {currentShareCard?.url ? (
+                <Image
+                  src={currentShareCard.url}
+                  alt={`${sharingStreak.name} share card`}
+                  fill
+                  unoptimized
+                />
+              ) : currentShareCard ? (
+                <p className="text-sm text-gray-500 p-4 text-center">
+                  Couldn&apos;t create the card. Check your connection and
+                  try again.
+                </p>
+              ) : (
+                <div className="inline-block animate-spin rounded-full h-8 w-8 border-4 border-gray-300 border-t-green-500"></div>
+              )}
+            </div>
+
+            {/* Public link */}
+            <div className="mb-4 rounded-lg bg-gray-50 p-3 text-sm text-gray-700">
+              {sharingPublicUrl ? (
+                <div className="flex items-center gap-2">
+                  <input
+                    readOnly
+                    value={sharingPublicUrl}
+                    onFocus={(e) => e.currentTarget.select()}
+                    className="flex-1 px-2 py-1 border border-gray-300 rounded bg-white text-gray-900"
+                  />
+                  <button
+                    onClick={() => copyLink(sharingPublicUrl)}
+                    className="px-3 py-1 rounded bg-white border border-gray-300 hover:bg-gray-100"
+                  >
+                    Copy
+                  </button>
+                  <button
+                    onClick={() =>
+                      handlePublicLinkChange(sharingStreak.id, false)
+                    }
+                    className="px-3 py-1 rounded text-red-600 hover:bg-red-50"
+                  >
+                    Stop sharing
+                  </button>
+                </div>
+              ) : (
+                <div className="flex items-center justify-between gap-2">
+                  <span>
+                    Anyone with a public link can see this habit&apos;s
+                    chain (read-only).
+                  </span>
+                  <button
+                    onClick={() =>
+                      handlePublicLinkChange(sharingStreak.id, true)
+                    }
+                    className="px-3 py-1 rounded bg-white border border-gray-300 hover:bg-gray-100 whitespace-nowrap"
+                  >
+                    Create public link
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {/* Action buttons */}
+            <div className="flex gap-3">
+              <button
+                onClick={downloadShareCard}
+                disabled={!currentShareCard?.blob}
+                className="flex-1 flex items-center justify-center gap-2 px-4 py-3 text-white font-semibold rounded-lg transition-all shadow-lg"
+                style={{
+                  background: "linear-gradient(to right, #ef4444, #f97316)",
+                }}
+                onMouseEnter={(e) => {
+                  e.currentTarget.style.background =
+                    "linear-gradient(to right, #dc2626, #ea580c)";
+                }}
+                onMouseLeave={(e) => {
+                  e.currentTarget.style.background =
+                    "linear-gradient(to right, #ef4444, #f97316)";
+                }}
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  className="h-5 w-5"
+                  viewBox="0 0 20 20"
+                  fill="currentColor"
+                >
+                  <path d="M15 8a3 3 0 10-2.977-2.63l-4.94 2.47a3 3 0 100 4.319l4.94 2.47a3 3 0 10.895-1.789l-4.94-2.47a3.027 3.027 0 000-.74l4.94-2.47C13.456 7.68 14.19 8 15 8z" />
+                </svg>
+                Share / Download
+              </button>
+              <button
+                onClick={() => setSharingStreak(null)}
+                className="px-4 py-3 font-semibold rounded-lg transition-colors"
+                style={{
+                  backgroundColor: "#e5e7eb",
+                  color: "#374151",
+                }}
+                onMouseEnter={(e) => {
+                  e.currentTarget.style.backgroundColor = "#d1d5db";
+                }}
+                onMouseLeave={(e) => {
+                  e.currentTarget.style.backgroundColor = "#e5e7eb";
+                }}
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Chain Links Visualization */}
+      <div className="fixed inset-0 pointer-events-none">
+        {chains.map((chain, chainIndex) => (
+          <div
+            key={chainIndex}
+            className="absolute inset-0"
+            style={{ zIndex: 40 + chain.zIndex }}
+          >
+            {chain.links.map((link, linkIndex) => {
+              // Offset chains perpendicular to the edge they're on
+              const offsetAmount = chainIndex * 15; // 15px offset per chain
+
+              // Calculate offset based on orientation
+              // Horizontal edges: offset vertically (y-axis)
+              // Vertical edges: offset horizontally (x-axis)
+              const xOffset = link.isHorizontal ? 0 : offsetAmount;
+              const yOffset = link.isHorizontal ? offsetAmount : 0;
+
+              return (
+                <div
+                  key={linkIndex}
+                  className="absolute transition-all duration-300"
+                  style={{
+                    left: `${link.x + xOffset}px`,
+                    top: `${link.y + yOffset}px`,
+                    transform: `translate(-50%, -50%)`,
+                  }}
+                >
+                  {/* Realistic Chain link SVG - 50% smaller */}
+                  <svg
+                    width="30"
+                    height="20"
+                    viewBox="0 0 30 20"
+                    className="drop-shadow-md"
+                    style={{
+                      transform: `rotate(${link.rotation}deg)`,
+                    }}
+                  >
+                    {/* Outer ring - creates the chain link shape */}
+                    <ellipse
+                      cx="15"
+                      cy="10"
+                      rx="10"
+                      ry="6"
+                      fill="none"
+                      stroke={chain.color}
+                      strokeWidth="3"
+                      opacity="0.85"
+                    />
+                    {/* Inner highlight for 3D effect */}
+                    <ellipse
+                      cx="15"
+                      cy="9"
+                      rx="8.5"
+                      ry="5"
+                      fill="none"
+                      stroke="white"
+                      strokeWidth="1"
+                      opacity="0.3"
+                    />
+                    {/* Shadow/depth on bottom */}
+                    <ellipse
+                      cx="15"
+                      cy="11"
+                      rx="8.5"
+                      ry="5"
+                      fill="none"
+                      stroke="black"
+                      strokeWidth="0.5"
+                      opacity="0.15"
+                    />
+                    {/* Left connecting bar */}
+                    <rect
+                      x="4"
+                      y="7"
+                      width="4"
+                      height="6"
+                      fill={chain.color}
+                      opacity="0.85"
+                      rx="1"
+                    />
+                    {/* Right connecting bar */}
+                    <rect
+                      x="22"
+                      y="7"
+                      width="4"
+                      height="6"
+                      fill={chain.color}
+                      opacity="0.85"
+                      rx="1"
+                    />
+                    {/* Highlight on connecting bars */}
+                    <rect
+                      x="4"
+                      y="7"
+                      width="4"
+                      height="2"
+                      fill="white"
+                      opacity="0.2"
+                      rx="1"
+                    />
+                    <rect
+                      x="22"
+                      y="7"
+                      width="4"
+                      height="2"
+                      fill="white"
+                      opacity="0.2"
+                      rx="1"
+                    />
+                  </svg>
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+
+      {/* User info and sign out button */}
+      <div className="absolute top-5 right-10 mt-10 mr-5 flex items-center gap-4 z-10">
+        {pendingChanges > 0 && (
+          <span
+            className="px-3 py-1 text-xs font-medium text-amber-800 bg-amber-100 rounded-full"
+            title="These changes are saved on this device and will sync when you're back online"
+          >
+            {pendingChanges} change{pendingChanges !== 1 ? "s" : ""} pending
+          </span>
+        )}
+        {user && profile && (
+          <button
+            onClick={() => setIsSettingsOpen(true)}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Settings
+          </button>
+        )}
+        {user && (
+          <div>
+            <button
+              onClick={handleSignOut}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Sign Out
+            </button>
+          </div>
+        )}
+      </div>
+      <div className="min-h-screen bg-linear-to-br from-amber-50 via-orange-50 to-red-50 font-sans p-8">
+        <div className="max-w-6xl mx-auto">
+          {/* Header */}
+          <div className="text-center mt-5 mb-12 relative">
+            <h1 className="text-5xl font-bold text-gray-900 mb-2">
+              Don&apos;t Break the Chain
+            </h1>
+            <p className="text-gray-600 text-lg mb-4">
+              Build your life, one day at a time
+            </p>
+          </div>
+
+          {/* Streaks List */}
+          <DragDropContext onDragEnd={handleDragEnd}>
+            <div className="mb-8">
+              {isLoading ? (
+                <div className="text-center py-12">
+                  <div className="inline-block animate-spin rounded-full h-12 w-12 border-4 border-gray-300 border-t-green-500"></div>
+                  <p className="mt-4 text-gray-600">Loading your streaks...</p>
+                </div>
+              ) : (
+                <Droppable droppableId="streaks">
+                  {(provided) => (
+                    <div
+                      {...provided.droppableProps}
+                      ref={provided.innerRef}
+                      className="space-y-4"
+                    >
+                      {activeStreaks.map((streak, index) => {
+                        const currentStreak = getCurrentStreak(
+                          streak.completedDates,
+                          streak.schedule,
+                          {
+                            ...calendarOptions,
+                            frozenDates: streak.frozenDates,
+                          }
+                        );
+                        const periodKind = getPeriodKind(streak.schedule);
+                        const isWeekly = periodKind === "week";
+                        const isMonthly = periodKind === "month";
+                        const boxes = isWeekly
+                          ? getWeekBoxes()
+                          : isMonthly
+                          ? getMonthBoxes()
+                          : dateBoxes;
+                        const currentIdentifier = isWeekly
+                          ? getWeekIdentifier(todayString, weekStartsOn)
+                          : isMonthly
+                          ? getMonthIdentifier(todayString)
+                          : todayString;
+
+                        return (
+                          <Draggable
+                            key={streak.id}
+                            draggableId={streak.id}
+                            index={index}
+                          >
+                            {(provided, snapshot) => (
+                              <div
+                                ref={provided.innerRef}
+                                {...provided.draggableProps}
+                                className="bg-white rounded-2xl shadow-lg p-6 transition-all duration-300 hover:shadow-xl animate-slideDown"
+                                style={{
+                                  borderLeft: `6px solid ${streak.color}`,
+                                  ...provided.draggableProps.style,
+                                  opacity: snapshot.isDragging ? 0.8 : 1,
+                                }}
+                              >
+                                <div className="flex items-center gap-3 w-full -ml-4">
+                                  {/* Drag Handle */}
+                                  <div
+                                    {...provided.dragHandleProps}
+                                    className="flex items-center justify-center cursor-grab active:cursor-grabbing text-gray-300 hover:text-gray-500 transition-colors shrink-0"
+                                    title="Drag to reorder"
+                                  >
+                                    <svg
+                                      xmlns="http://www.w3.org/2000/svg"
+                                      className="h-5 w-5"
+                                      viewBox="0 0 24 24"
+                                      fill="currentColor"
+                                    >
+                                      <circle cx="9" cy="5" r="1.5" />
+                                      <circle cx="9" cy="12" r="1.5" />
+                                      <circle cx="9" cy="19" r="1.5" />
+                                      <circle cx="15" cy="5" r="1.5" />
+                                      <circle cx="15" cy="12" r="1.5" />
+                                      <circle cx="15" cy="19" r="1.5" />
+                                    </svg>
+                                  </div>
+                                  <div
+                                    className="flex items-center gap-6 cursor-pointer flex-1"
+                                    onClick={() =>
+                                      handleStreakCardClick(streak.id)
+                                    }
+                                  >
+                                    <div className="shrink-0 w-80">
+                                      {editingId === streak.id ? (
+                                        // Edit mode
+                                        <div className="flex items-center gap-2">
+                                          <div
+                                            className="w-4 h-4 rounded-full shrink-0"
+                                            style={{
+                                              backgroundColor: streak.color,
+                                            }}
+                                          />
+                                          <input
+                                            type="text"
+                                            value={editingName}
+                                            onChange={(e) =>
+                                              setEditingName(e.target.value)
+                                            }
+                                            onKeyPress={(e) => {
+                                              if (e.key === "Enter") {
+                                                handleEditStreak(streak.id);
+                                              }
+                                            }}
+                                            className="flex-1 px-3 py-1 text-lg font-semibold text-gray-900 border-2 border-green-500 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-300"
+                                            autoFocus
+                                          />
+                                          <button
+                                            onClick={() =>
+                                              handleEditStreak(streak.id)
+                                            }
+                                            className="px-3 py-1 text-sm font-medium text-white bg-green-500 rounded-lg hover:bg-green-600 transition-colors"
+                                          >
+                                            Save
+                                          </button>
+                                        </div>
+                                      ) : (
+                                        // View mode
+                                        <>
+                                          <div className="flex items-center gap-2">
+                                            {/* Color indicator */}
+                                            <div
+                                              className="w-4 h-4 rounded-full shrink-0"
+                                              style={{
+                                                backgroundColor: streak.color,
+                                              }}
+                                            />
+                                            <h3 className="text-xl font-semibold text-gray-900">
+                                              {streak.name}
+                                            </h3>
+                                          </div>
+                                          <div className="mt-2 inline-flex items-center gap-2 px-3 py-1 bg-linear-to-r from-red-100 to-orange-100 rounded-full">
+                                            <span className="text-2xl">🔥</span>
+                                            <span className="text-sm font-bold text-red-600">
+                                              {currentStreak}{" "}
+                                              {getStreakUnit(streak.schedule)}
+                                              {currentStreak !== 1 ? "s" : ""}
+                                            </span>
+                                          </div>
+                                          <span className="ml-2 text-xs text-gray-500">
+                                            {describeSchedule(streak.schedule)}
+                                            {streak.target &&
+                                              ` · ${streak.target}${
+                                                streak.unit
+                                                  ? ` ${streak.unit}`
+                                                  : ""
+                                              } per ${getPeriodKind(
+                                                streak.schedule
+                                              )}`}
+                                            {streak.schedule.type ===
+                                              "times_per_week" &&
+                                              ` · ${getWeekCompletionCount(
+                                                streak.completedDates,
+                                                todayString,
+                                                weekStartsOn
+                                              )}/${
+                                                streak.schedule.times
+                                              } this week`}
+                                          </span>
+                                        </>
+                                      )}
+                                    </div>
+                                    <div className="flex gap-3 flex-1 justify-end">
+                                      {boxes.map((identifier) => {
+                                        const isCurrent =
+                                          identifier === currentIdentifier;
+                                        const isCompleted =
+                                          streak.completedDates.has(identifier);
+                                        const isFrozen =
+                                          !isCompleted &&
+                                          streak.frozenDates.has(identifier);
+                                        const note =
+                                          streak.entries[identifier]?.note;
+                                        const quantity =
+                                          streak.entries[identifier]?.value;
+                                        // Partial progress towards the target
+                                        const progress =
+                                          streak.target && quantity
+                                            ? Math.min(
+                                                quantity / streak.target,
+                                                1
+                                              )
+                                            : 0;
+                                        // Unscheduled days can still be ticked
+                                        // but are shown dimmed
+                                        const isScheduled =
+                                          periodKind !== "day" ||
+                                          isScheduledDay(
+                                            streak.schedule,
+                                            identifier
+                                          );
+
+                                        let label = "";
+                                        let tooltip = "";
+
+                                        if (isWeekly) {
+                                          const weekDates =
+                                            getWeekDates(identifier);
+                                          const start = parseDateString(
+                                            weekDates.start
+                                          );
+                                          const end = parseDateString(
+                                            weekDates.end
+                                          );
+                                          label = `${start.toLocaleDateString(
+                                            "en-US",
+                                            {
+                                              month: "short",
+                                              day: "numeric",
+                                            }
+                                          )}`;
+                                          tooltip = `${start.toLocaleDateString(
+                                            "en-US",
+                                            {
+                                              month: "short",
+                                              day: "numeric",
+                                            }
+                                          )} - ${end.toLocaleDateString(
+                                            "en-US",
+                                            {
+                                              month: "short",
+                                              day: "numeric",
+                                              year: "numeric",
+                                            }
+                                          )} (Week ending ${end.toLocaleDateString(
+                                            "en-US",
+                                            {
+                                              weekday: "short",
+                                            }
+                                          )})`;
+                                        } else if (isMonthly) {
+                                          const [year, month] = identifier
+                                            .split("-")
+                                            .map(Number);
+                                          const dateObj = new Date(
+                                            year,
+                                            month - 1
+                                          );
+                                          label = dateObj.toLocaleDateString(
+                                            "en-US",
+                                            {
+                                              month: "short",
+                                            }
+                                          );
+                                          tooltip = dateObj.toLocaleDateString(
+                                            "en-US",
+                                            {
+                                              month: "long",
+                                              year: "numeric",
+                                            }
+                                          );
+                                        } else {
+                                          const dateObj =
+                                            parseDateString(identifier);
+                                          label = dateObj.toLocaleDateString(
+                                            "en-US",
+                                            {
+                                              weekday: "short",
+                                            }
+                                          );
+                                          tooltip = dateObj.toLocaleDateString(
+                                            "en-US",
+                                            {
+                                              month: "long",
+                                              day: "numeric",
+                                              year: "numeric",
+                                            }
+                                          );
+                                        }
+
+                                        return (
+                                          <div
+                                            key={identifier}
+                                            className="flex flex-col items-center relative group"
+                                          >
+                                            <span className="text-xs text-gray-500 mb-1">
+                                              {label}
+                                            </span>
+                                            <button
+                                              onClick={(e) => {
+                                                e.stopPropagation(); // Prevent card click when clicking the box
+                                                const button = e.currentTarget;
+                                                // Shift-click to attach a note
+                                                if (e.shiftKey) {
+                                                  const newNote = prompt(
+                                                    "Add a note",
+                                                    note ?? ""
+                                                  );
+                                                  if (newNote !== null) {
+                                                    toggleDate(
+                                                      streak.id,
+                                                      identifier,
+                                                      button,
+                                                      newNote
+                                                    );
+                                                  }
+                                                  return;
+                                                }
+                                                toggleDate(
+                                                  streak.id,
+                                                  identifier,
+                                                  button
+                                                );
+                                              }}
+                                              onContextMenu={(e) => {
+                                                e.preventDefault();
+                                                e.stopPropagation();
+                                                toggleFreeze(
+                                                  streak.id,
+                                                  identifier
+                                                );
+                                              }}
+                                              className={`
+                            relative transition-all duration-200 cursor-pointer
+                            ${
+                              isCurrent
+                                ? "w-16 h-16 hover:scale-110"
+                                : "w-12 h-12 hover:scale-105"
+                            }
+                            ${
+                              isCompleted
+                                ? "bg-green-500 shadow-lg"
+                                : isFrozen
+                                ? "bg-sky-100 border-2 border-dashed border-sky-300"
+                                : "bg-white border-2 border-gray-300 hover:border-gray-400"
+                            }
+                            ${isScheduled ? "" : "opacity-40"}
+                            rounded-lg
+                          `}
+                                            >
+                                              {!isCompleted && progress > 0 && (
+                                                <>
+                                                  <div
+                                                    className="absolute inset-x-0 bottom-0 bg-green-200 rounded-b-md"
+                                                    style={{
+                                                      height: `${
+                                                        progress * 100
+                                                      }%`,
+                                                    }}
+                                                  />
+                                                  <span className="absolute inset-0 flex items-center justify-center text-xs font-semibold text-green-800">
+                                                    {quantity}
+                                                  </span>
+                                                </>
+                                              )}
+                                              {isCompleted && (
+                                                <svg
+                                                  viewBox="0 0 100 100"
+                                                  className="absolute inset-0 w-full h-full p-2"
+                                                >
+                                                  <path
+                                                    d="M 20 20 L 80 80 M 80 20 L 20 80"
+                                                    stroke="#d1fae5"
+                                                    strokeWidth="12"
+                                                    strokeLinecap="round"
+                                                    className="drop-shadow-lg"
+                                                  />
+                                                  <path
+                                                    d="M 20 20 L 80 80 M 80 20 L 20 80"
+                                                    stroke="#16a34a"
+                                                    strokeWidth="10"
+                                                    strokeLinecap="round"
+                                                  />
+                                                </svg>
+                                              )}
+                                              {isFrozen && (
+                                                <span className="absolute inset-0 flex items-center justify-center text-xl">
+                                                  ❄️
+                                                </span>
+                                              )}
+                                            </button>
+                                            {/* Custom Tooltip */}
+                                            {(isWeekly || note) && (
+                                              <div className="absolute bottom-full mb-2 hidden group-hover:block z-50 pointer-events-none">
+                                                <div className="bg-gray-900 text-white text-xs rounded-lg py-2 px-3 whitespace-nowrap shadow-lg">
+                                                  {tooltip}
+                                                  {note && (
+                                                    <div className="mt-1 italic text-gray-200">
+                                                      “{note}”
+                                                    </div>
+                                                  )}
+                                                  <div className="absolute top-full left-1/2 transform -translate-x-1/2 -mt-1">
+                                                    <div className="border-4 border-transparent border-t-gray-900"></div>
+                                                  </div>
+                                                </div>
+                                              </div>
+                                            )}
+                                          </div>
+                                        );
+                                      })}
+                                    </div>
+                                  </div>
+                                </div>
+
+                                {/* Heatmap and stats - appear below when selected */}
+                                {selectedStreakId === streak.id && (
+                                  <>
+                                    <div className="mt-4 pt-4 border-t border-gray-200 flex justify-center animate-slideDown">
+                                      <Heatmap
+                                        completedDates={streak.completedDates}
+                                        entries={streak.entries}
+                                        target={streak.target}
+                                        frozenDates={streak.frozenDates}
+                                        schedule={streak.schedule}
+                                        color={streak.color}
+                                        today={todayString}
+                                        weekStartsOn={weekStartsOn}
+                                        onToggle={(identifier, button) =>
+                                          toggleDate(
+                                            streak.id,
+                                            identifier,
+                                            button
+                                          )
+                                        }
+                                        onFreeze={(identifier) =>
+                                          toggleFreeze(streak.id, identifier)
+                                        }
+                                      />
+                                    </div>
+                                    <div className="mt-3 flex items-center justify-center gap-3 text-sm text-gray-600">
+                                      <span>
+                                        ❄️ Right-click a box to freeze it.
+                                        Freezes used this month:{" "}
+                                        {getFreezesUsedInMonth(
+                                          streak.frozenDates,
+                                          getMonthIdentifier(todayString)
+                                        )}{" "}
+                                        / {streak.freezeAllowance}
+                                      </span>
+                                      <button
+                                        onClick={(e) => {
+                                          e.stopPropagation();
+                                          handleFreezeAllowanceChange(
+                                            streak.id,
+                                            streak.freezeAllowance - 1
+                                          );
+                                        }}
+                                        className="w-6 h-6 rounded bg-gray-100 hover:bg-gray-200"
+                                        title="Fewer freezes per month"
+                                      >
+                                        −
+                                      </button>
+                                      <button
+                                        onClick={(e) => {
+                                          e.stopPropagation();
+                                          handleFreezeAllowanceChange(
+                                            streak.id,
+                                            streak.freezeAllowance + 1
+                                          );
+                                        }}
+                                        className="w-6 h-6 rounded bg-gray-100 hover:bg-gray-200"
+                                        title="More freezes per month"
+                                      >
+                                        +
+                                      </button>
+                                    </div>
+                                    {isPushSupported() && (
+                                      <div className="mt-3 flex items-center justify-center gap-3 text-sm text-gray-600">
+                                        <label
+                                          htmlFor={`reminder-${streak.id}`}
+                                        >
+                                          🔔 Remind me at
+                                        </label>
+                                        <input
+                                          id={`reminder-${streak.id}`}
+                                          type="time"
+                                          value={streak.reminderTime ?? ""}
+                                          onClick={(e) => e.stopPropagation()}
+                                          onChange={(e) =>
+                                            handleReminderChange(
+                                              streak.id,
+                                              e.target.value || null
+                                            )
+                                          }
+                                          className="px-2 py-1 border border-gray-300 rounded text-gray-900"
+                                        />
+                                        <span>if not done</span>
+                                        {streak.reminderTime && (
+                                          <button
+                                            onClick={(e) => {
+                                              e.stopPropagation();
+                                              handleReminderChange(
+                                                streak.id,
+                                                null
+                                              );
+                                            }}
+                                            className="text-gray-400 hover:text-gray-600"
+                                            title="Turn off reminder"
+                                          >
+                                            ✕
+                                          </button>
+                                        )}
+                                      </div>
+                                    )}
+                                    <Journal
+                                      entries={streak.entries}
+                                      schedule={streak.schedule}
+                                    />
+                                    <StreakStats
+                                      completedDates={streak.completedDates}
+                                      frozenDates={streak.frozenDates}
+                                      schedule={streak.schedule}
+                                      createdAt={
+                                        streak.createdAt &&
+                                        getDayForInstant(
+                                          new Date(streak.createdAt),
+                                          calendarOptions
+                                        )
+                                      }
+                                      calendarOptions={calendarOptions}
+                                      color={streak.color}
+                                    />
+                                  </>
+                                )}
+
+                                {/* Edit, Share, and Delete buttons - appear below when selected */}
+                                {selectedStreakId === streak.id && (
+                                  <div className="mt-4 pt-4 border-t border-gray-200 flex gap-3 justify-center animate-slideDown">
+                                    <button
+                                      onClick={(e) => {
+                                        e.stopPropagation();
+                                        startEditing(streak);
+                                      }}
+                                      className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-blue-700 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors"
+                                    >
+                                      <svg
+                                        xmlns="http://www.w3.org/2000/svg"
+                                        className="h-4 w-4"
+                                        viewBox="0 0 20 20"
+                                        fill="currentColor"
+                                      >
+                                        <path d="M13.586 3.586a2 2 0 112.828 2.828l-.793.793-2.828-2.828.793-.793zM11.379 5.793L3 14.172V17h2.828l8.38-8.379-2.83-2.828z" />
+                                      </svg>
+                                      Edit
+                                    </button>
+                                    <button
+                                      onClick={(e) => {
+                                        e.stopPropagation();
+                                        handleShareStreak(streak);
+                                      }}
+                                      className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-green-700 bg-green-50 rounded-lg hover:bg-green-100 transition-colors"
+                                    >
+                                      <svg
+                                        xmlns="http://www.w3.org/2000/svg"
+                                        className="h-4 w-4"
+                                        viewBox="0 0 20 20"
+                                        fill="currentColor"
+                                      >
+                                        <path d="M15 8a3 3 0 10-2.977-2.63l-4.94 2.47a3 3 0 100 4.319l4.94 2.47a3 3 0 10.895-1.789l-4.94-2.47a3.027 3.027 0 000-.74l4.94-2.47C13.456 7.68 14.19 8 15 8z" />
+                                      </svg>
+                                      Share
+                                    </button>
+                                    <button
+                                      onClick={(e) => {
+                                        e.stopPropagation();
+                                        handleArchiveStreak(streak.id, true);
+                                      }}
+                                      className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-red-700 bg-red-50 rounded-lg hover:bg-red-100 transition-colors"
+                                    >
+                                      <svg
+                                        xmlns="http://www.w3.org/2000/svg"
+                                        className="h-4 w-4"
+                                        viewBox="0 0 20 20"
+                                        fill="currentColor"
+                                      >
+                                        <path d="M4 3a2 2 0 100 4h12a2 2 0 100-4H4z" />
+                                        <path
+                                          fillRule="evenodd"
+                                          d="M3 8h14v7a2 2 0 01-2 2H5a2 2 0 01-2-2V8zm5 3a1 1 0 011-1h2a1 1 0 110 2H9a1 1 0 01-1-1z"
+                                          clipRule="evenodd"
+                                        />
+                                      </svg>
+                                      Archive
+                                    </button>
+                                  </div>
+                                )}
+                              </div>
+                            )}
+                          </Draggable>
+                        );
+                      })}
+                      {provided.placeholder}
+                    </div>
+                  )}
+                </Droppable>
+              )}
+            </div>
+          </DragDropContext>
+
+          <ArchivedHabits
+            habits={archivedStreaks}
+            onRestore={(id) => handleArchiveStreak(id, false)}
+            onPurge={handlePurgeStreak}
+          />
+
+          {/* Input Field */}
+          <div
+            className={`
+            flex justify-center items-center transition-all duration-500
+            ${activeStreaks.length === 0 ? "min-h-[50vh]" : ""}
+            ${isAdding ? "opacity-0 -translate-y-8" : "opacity-100"}
+          `}
+          >
+            <div className="w-full max-w-4xl">
+              <div className="flex gap-4 items-center">
+                <input
+                  type="text"
+                  value={inputValue}
+                  onChange={(e) => setInputValue(e.target.value)}
+                  onKeyPress={handleKeyPress}
+                  placeholder="What habit do you want to build?"
+                  className="flex-1 px-8 py-6 text-2xl text-center text-black rounded-2xl border-2 border-gray-300 bg-white focus:border-green-500 focus:outline-none focus:ring-4 focus:ring-green-100 shadow-lg transition-all duration-200 placeholder:text-gray-400"
+                />
+                <select
+                  value={frequency}
+                  onChange={(e) =>
+                    setFrequency(e.target.value as Frequency)
+                  }
+                  className="px-6 py-6 text-xl text-black rounded-2xl border-2 border-gray-300 bg-white focus:border-green-500 focus:outline-none focus:ring-4 focus:ring-green-100 shadow-lg transition-all duration-200 cursor-pointer appearance-none"
+                  style={{
+                    backgroundImage: `url("data:image/svg+xml,%3csvg xmlns='http://www.w3.org/2000/svg' fill='none' viewBox='0 0 24 24'%3e%3cpath stroke='%236b7280' stroke-linecap='round' stroke-linejoin='round' stroke-width='1.5' d='M6 8l4 4 4-4'/%3e%3c/svg%3e")`,
+                    backgroundPosition: "right 0.75rem center",
+                    backgroundRepeat: "no-repeat",
+                    backgroundSize: "1.5em 1.5em",
+                    paddingRight: "2.5rem",
+                  }}
+                >
+                  <option value="daily">Daily</option>
+                  <option value="weekly">Weekly</option>
+                  <option value="times_per_week">Times per week</option>
+                  <option value="weekdays">Specific days</option>
+                  <option value="every_n_days">Every N days</option>
+                  <option value="monthly">Monthly</option>
+                </select>
+                <button
+                  onClick={handleAddStreak}
+                  disabled={!inputValue.trim()}
+                  className="px-8 py-6 text-xl font-semibold text-white bg-green-500 rounded-2xl hover:bg-green-600 focus:outline-none focus:ring-4 focus:ring-green-100 shadow-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-green-500"
+                >
+                  Add
+                </button>
+              </div>
+
+              {/* Optional target for quantitative habits */}
+              <div className="mt-4 flex justify-center items-center gap-3 text-gray-700">
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={isQuantity}
+                    onChange={(e) => setIsQuantity(e.target.checked)}
+                  />
+                  Track an amount
+                </label>
+                {isQuantity && (
+                  <>
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={target}
+                      onChange={(e) => setTarget(Number(e.target.value))}
+                      className="w-24 px-3 py-2 text-lg text-center text-black rounded-lg border-2 border-gray-300 bg-white focus:border-green-500 focus:outline-none"
+                    />
+                    <input
+                      type="text"
+                      value={unit}
+                      onChange={(e) => setUnit(e.target.value)}
+                      placeholder="unit, e.g. glasses"
+                      className="w-44 px-3 py-2 text-lg text-black rounded-lg border-2 border-gray-300 bg-white focus:border-green-500 focus:outline-none"
+                    />
+                    <span>
+                      per{" "}
+                      {getPeriodKind(
+                        parseSchedule(frequency, null)
+                      )}
+                    </span>
+                  </>
+                )}
+              </div>
+
+              {/* Extra options for custom cadences */}
+              {frequency === "times_per_week" && (
+                <div className="mt-4 flex justify-center items-center gap-3 text-gray-700">
+                  <input
+                    type="number"
+                    min={1}
+                    max={7}
+                    value={timesPerWeek}
+                    onChange={(e) => setTimesPerWeek(Number(e.target.value))}
+                    className="w-20 px-3 py-2 text-lg text-center text-black rounded-lg border-2 border-gray-300 bg-white focus:border-green-500 focus:outline-none"
+                  />
+                  <span>times per week</span>
+                </div>
+              )}
+              {frequency === "weekdays" && (
+                <div className="mt-4 flex justify-center gap-2">
+                  {WEEKDAY_NAMES.map((name, day) => {
+                    const isSelected = scheduledDays.includes(day);
+                    return (
+                      <button
+                        key={name}
+                        onClick={() =>
+                          setScheduledDays(
+                            isSelected
+                              ? scheduledDays.filter((d) => d !== day)
+                              : [...scheduledDays, day]
+                          )
+                        }
+                        className={`px-3 py-2 text-sm font-medium rounded-lg border-2 transition-colors ${
+                          isSelected
+                            ? "bg-green-500 border-green-500 text-white"
+                            : "bg-white border-gray-300 text-gray-700 hover:border-gray-400"
+                        }`}
+                      >
+                        {name}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+              {frequency === "every_n_days" && (
+                <div className="mt-4 flex justify-center items-center gap-3 text-gray-700">
+                  <span>Every</span>
+                  <input
+                    type="number"
+                    min={1}
+                    value={intervalDays}
+                    onChange={(e) => setIntervalDays(Number(e.target.value))}
+                    className="w-20 px-3 py-2 text-lg text-center text-black rounded-lg border-2 border-gray-300 bg-white focus:border-green-500 focus:outline-none"
+                  />
+                  <span>days</span>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
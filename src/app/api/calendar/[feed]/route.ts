@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { buildCalendarFeed } from "@/lib/calendar-feed";
+import { loadExportData } from "@/lib/data-export";
+import { createAdminClient } from "@/lib/supabase-admin";
+
+// Secret calendar feed of completed habits: GET /api/calendar/<token>.ics,
+// where the token is the one stored on the user's profile. Calendar apps
+// can't sign in, so the link itself is the credential.
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ feed: string }> }
+) {
+  const token = (await params).feed.match(/^([a-f0-9]{32})\.ics$/)?.[1];
+  if (!token) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const supabase = createAdminClient();
+  try {
+    const { data: profile, error } = await supabase
+      .from("profiles")
+      .select("user_id")
+      .eq("calendar_token", token)
+      .maybeSingle();
+    if (error) throw error;
+    if (!profile) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const data = await loadExportData(supabase, profile.user_id);
+    return new NextResponse(buildCalendarFeed(data), {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err) {
+    console.error("Error building calendar feed:", err);
+    return NextResponse.json(
+      { error: "Could not build calendar feed" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { getUserClient } from "@/lib/api-auth";
+import {
+  EXPORT_FORMATS,
+  loadExportData,
+  toBackupFile,
+  toCsv,
+} from "@/lib/data-export";
+import type { ExportFormat } from "@/lib/data-export";
+
+// Downloads all of the signed-in user's habits and check-ins:
+//   GET /api/export?format=csv    one row per habit and period
+//   GET /api/export?format=json   full backup, accepted by the importer
+export async function GET(request: Request) {
+  const client = await getUserClient(request);
+  if (!client) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const format = new URL(request.url).searchParams.get("format") ?? "json";
+  if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+    return NextResponse.json(
+      { error: "Expected format=csv or format=json" },
+      { status: 400 }
+    );
+  }
+
+  let data;
+  try {
+    data = await loadExportData(client.supabase, client.user.id);
+  } catch (err) {
+    console.error("Error loading export:", err);
+    return NextResponse.json(
+      { error: "Could not load your data" },
+      { status: 500 }
+    );
+  }
+
+  const date = new Date().toISOString().slice(0, 10);
+  const isCsv = format === "csv";
+  return new NextResponse(
+    isCsv ? toCsv(data) : JSON.stringify(toBackupFile(data), null, 2),
+    {
+      headers: {
+        "Content-Type": isCsv
+          ? "text/csv; charset=utf-8"
+          : "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="dont-break-the-chain-${date}.${format}"`,
+        "Cache-Control": "no-store",
+      },
+    }
+  );
+}
@@ -0,0 +1,152 @@
+import { NextResponse } from "next/server";
+import { getApiClient, hasAccess } from "@/lib/api-auth";
+import { isCheckInComplete } from "@/lib/supabase";
+import {
+  UUID_PATTERN,
+  apiError,
+  loadApiHabits,
+  loadHabitRow,
+  parseCheckInInput,
+  readJsonObject,
+  toApiCheckIn,
+  toPeriod,
+} from "@/lib/habits-api";
+import { parseSchedule } from "@/lib/schedule";
+import { getPeriodIdentifier, getToday } from "@/lib/streak-engine";
+
+type Params = { params: Promise<{ habitId: string; period: string }> };
+
+// Marks or unmarks a habit for a date (or month, for monthly habits); the
+// check-in is stored under the period the date falls in:
+//   PUT    /api/habits/<id>/check-ins/2026-01-31  { value?, note? }
+//   DELETE /api/habits/<id>/check-ins/2026-01-31
+// Quantitative habits are marked with their target unless a value is
+// given. Both return the habit with its updated streak.
+export async function PUT(request: Request, { params }: Params) {
+  const client = await getApiClient(request);
+  if (!client) return apiError(401, "Not signed in");
+  const { supabase, user } = client;
+
+  const { habitId, period: date } = await params;
+  if (!UUID_PATTERN.test(habitId)) return apiError(404, "Habit not found");
+  if (!hasAccess(client, "write", habitId)) {
+    return apiError(403, "This token can't check in to that habit");
+  }
+
+  const body = await readJsonObject(request, true);
+  if (!body) return apiError(400, "Expected a JSON object");
+  const { values, errors } = parseCheckInInput(body);
+  if (errors.length > 0) return apiError(400, "Invalid check-in", errors);
+
+  try {
+    const habit = await loadHabitRow(supabase, user.id, habitId);
+    if (!habit) return apiError(404, "Habit not found");
+    const { row, calendar } = habit;
+
+    const schedule = parseSchedule(row.frequency, row.schedule);
+    const period = toPeriod(schedule, date, calendar);
+    if (!period) return apiError(400, "Expected a date (YYYY-MM-DD)");
+    const currentPeriod = getPeriodIdentifier(
+      schedule,
+      getToday(calendar),
+      calendar.weekStartsOn
+    );
+    if (period > currentPeriod) {
+      return apiError(400, "Can't check in for a future period");
+    }
+
+    const { data: existing, error: existingError } = await supabase
+      .from("check_ins")
+      .select("*")
+      .eq("habit_id", habitId)
+      .eq("period_id", period)
+      .maybeSingle();
+    if (existingError) throw existingError;
+
+    const { data: checkIn, error } = await supabase
+      .from("check_ins")
+      .upsert(
+        {
+          habit_id: habitId,
+          user_id: user.id,
+          period_id: period,
+          value:
+            values.value !== undefined
+              ? values.value
+              : existing?.value ?? row.target,
+          note: values.note !== undefined ? values.note : existing?.note ?? null,
+        },
+        { onConflict: "habit_id,period_id" }
+      )
+      .select("*")
+      .single();
+    if (error) throw error;
+
+    // A completed period no longer needs its freeze
+    if (
+      isCheckInComplete(checkIn, row.target) &&
+      row.frozen_dates?.includes(period)
+    ) {
+      const { error: freezeError } = await supabase
+        .from("streaks")
+        .update({
+          frozen_dates: row.frozen_dates.filter((frozen) => frozen !== period),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", habitId)
+        .eq("user_id", user.id);
+      if (freezeError) throw freezeError;
+    }
+
+    const [updated] = await loadApiHabits(supabase, user.id, { id: habitId });
+    return NextResponse.json(
+      { check_in: toApiCheckIn(checkIn, row.target), habit: updated },
+      { status: existing ? 200 : 201 }
+    );
+  } catch (err) {
+    console.error("Error saving check-in:", err);
+    return apiError(500, "Could not save check-in");
+  }
+}
+
+export async function DELETE(request: Request, { params }: Params) {
+  const client = await getApiClient(request);
+  if (!client) return apiError(401, "Not signed in");
+  const { supabase, user } = client;
+
+  const { habitId, period: date } = await params;
+  if (!UUID_PATTERN.test(habitId)) return apiError(404, "Habit not found");
+  if (!hasAccess(client, "write", habitId)) {
+    return apiError(403, "This token can't check in to that habit");
+  }
+
+  try {
+    const habit = await loadHabitRow(supabase, user.id, habitId);
+    if (!habit) return apiError(404, "Habit not found");
+    const { row, calendar } = habit;
+
+    const period = toPeriod(
+      parseSchedule(row.frequency, row.schedule),
+      date,
+      calendar
+    );
+    if (!period) return apiError(400, "Expected a date (YYYY-MM-DD)");
+
+    const { data, error } = await supabase
+      .from("check_ins")
+      .delete()
+      .eq("habit_id", habitId)
+      .eq("period_id", period)
+      .select("id");
+    if (error) throw error;
+    if (!data || data.length === 0) {
+      return apiError(404, "No check-in for that period");
+    }
+
+    const [updated] = await loadApiHabits(supabase, user.id, { id: habitId });
+    return NextResponse.json({ habit: updated });
+  } catch (err) {
+    console.error("Error removing check-in:", err);
+    return apiError(500, "Could not remove check-in");
+  }
+}
@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+import { getApiClient, hasAccess } from "@/lib/api-auth";
+import {
+  UUID_PATTERN,
+  apiError,
+  loadHabitRow,
+  toApiCheckIn,
+  toPeriod,
+} from "@/lib/habits-api";
+import { parseSchedule } from "@/lib/schedule";
+import { addDays, daysBetween, getToday } from "@/lib/streak-engine";
+
+// Longest range one request can list
+const MAX_RANGE_DAYS = 731;
+
+// A habit's check-ins between two dates, inclusive (the last 30 days by
+// default):
+//   GET /api/habits/<id>/check-ins?from=2026-01-01&to=2026-01-31
+// Weekly and monthly habits return the periods those dates fall in.
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ habitId: string }> }
+) {
+  const client = await getApiClient(request);
+  if (!client) return apiError(401, "Not signed in");
+  const { supabase, user } = client;
+
+  const { habitId } = await params;
+  if (!UUID_PATTERN.test(habitId)) return apiError(404, "Habit not found");
+  if (!hasAccess(client, "read", habitId)) {
+    return apiError(403, "This token can't access that habit");
+  }
+
+  try {
+    const habit = await loadHabitRow(supabase, user.id, habitId);
+    if (!habit) return apiError(404, "Habit not found");
+    const { row, calendar } = habit;
+
+    const { searchParams } = new URL(request.url);
+    const to = searchParams.get("to") ?? getToday(calendar);
+    const from = searchParams.get("from") ?? addDays(to, -29);
+    const schedule = parseSchedule(row.frequency, row.schedule);
+    const fromPeriod = /^\d{4}-\d{2}-\d{2}$/.test(from)
+      ? toPeriod(schedule, from, calendar)
+      : null;
+    const toPeriodId = /^\d{4}-\d{2}-\d{2}$/.test(to)
+      ? toPeriod(schedule, to, calendar)
+      : null;
+    if (!fromPeriod || !toPeriodId) {
+      return apiError(400, "from and to must be dates (YYYY-MM-DD)");
+    }
+    const days = daysBetween(from, to);
+    if (days < 0 || days >= MAX_RANGE_DAYS) {
+      return apiError(
+        400,
+        `from must be before to, at most ${MAX_RANGE_DAYS} days apart`
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("check_ins")
+      .select("*")
+      .eq("habit_id", habitId)
+      .gte("period_id", fromPeriod)
+      .lte("period_id", toPeriodId)
+      .order("period_id", { ascending: true });
+    if (error) throw error;
+
+    return NextResponse.json({
+      habit_id: habitId,
+      from,
+      to,
+      check_ins: (data ?? []).map((checkIn) =>
+        toApiCheckIn(checkIn, row.target)
+      ),
+    });
+  } catch (err) {
+    console.error("Error loading check-ins:", err);
+    return apiError(500, "Could not load check-ins");
+  }
+}
@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import { getApiClient, hasAccess } from "@/lib/api-auth";
+import {
+  UUID_PATTERN,
+  apiError,
+  loadApiHabits,
+  parseHabitInput,
+  readJsonObject,
+} from "@/lib/habits-api";
+
+type Params = { params: Promise<{ habitId: string }> };
+
+// One of the signed-in user's habits:
+//   GET   /api/habits/<id>
+//   PATCH /api/habits/<id>  { name?, schedule?, unit?, target?,
+//                             freeze_allowance?, reminder_time?, archived? }
+// Archiving hides a habit from the list and reminders but keeps its
+// history; `archived: false` restores it.
+export async function GET(request: Request, { params }: Params) {
+  const client = await getApiClient(request);
+  if (!client) return apiError(401, "Not signed in");
+
+  const { habitId } = await params;
+  if (!UUID_PATTERN.test(habitId)) return apiError(404, "Habit not found");
+  if (!hasAccess(client, "read", habitId)) {
+    return apiError(403, "This token can't access that habit");
+  }
+
+  try {
+    const [habit] = await loadApiHabits(client.supabase, client.user.id, {
+      id: habitId,
+    });
+    if (!habit) return apiError(404, "Habit not found");
+    return NextResponse.json({ habit });
+  } catch (err) {
+    console.error("Error loading habit:", err);
+    return apiError(500, "Could not load habit");
+  }
+}
+
+export async function PATCH(request: Request, { params }: Params) {
+  const client = await getApiClient(request);
+  if (!client) return apiError(401, "Not signed in");
+  const { supabase, user } = client;
+
+  const { habitId } = await params;
+  if (!UUID_PATTERN.test(habitId)) return apiError(404, "Habit not found");
+  if (!hasAccess(client, "write", habitId)) {
+    return apiError(403, "This token can't change that habit");
+  }
+
+  const body = await readJsonObject(request);
+  if (!body) return apiError(400, "Expected a JSON object");
+  const { values, errors } = parseHabitInput(body, true);
+  if (errors.length > 0) return apiError(400, "Invalid habit", errors);
+
+  try {
+    const { data, error } = await supabase
+      .from("streaks")
+      .update({ ...values, updated_at: new Date().toISOString() })
+      .eq("id", habitId)
+      .eq("user_id", user.id)
+      .select("id");
+    if (error) throw error;
+    if (!data || data.length === 0) return apiError(404, "Habit not found");
+
+    const [habit] = await loadApiHabits(supabase, user.id, { id: habitId });
+    return NextResponse.json({ habit });
+  } catch (err) {
+    console.error("Error updating habit:", err);
+    return apiError(500, "Could not update habit");
+  }
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { getApiClient, hasAccess } from "@/lib/api-auth";
+import {
+  UUID_PATTERN,
+  apiError,
+  loadApiHabits,
+  readJsonObject,
+} from "@/lib/habits-api";
+
+// Reorders the signed-in user's habits:
+//   PUT /api/habits/order  { ids: [<habit id>, ...] }
+// Listed habits come first, in the given order; any others keep their
+// relative order after them. Returns the active habits in their new order.
+export async function PUT(request: Request) {
+  const client = await getApiClient(request);
+  if (!client) return apiError(401, "Not signed in");
+  if (!hasAccess(client, "write")) {
+    return apiError(403, "This token can't reorder habits");
+  }
+  const { supabase, user } = client;
+
+  const body = await readJsonObject(request);
+  const ids = body?.ids;
+  if (
+    !Array.isArray(ids) ||
+    ids.length === 0 ||
+    !ids.every((id) => typeof id === "string" && UUID_PATTERN.test(id)) ||
+    new Set(ids).size !== ids.length
+  ) {
+    return apiError(400, "Expected a list of distinct habit ids");
+  }
+
+  try {
+    const { data: existing, error: existingError } = await supabase
+      .from("streaks")
+      .select("id, order")
+      .eq("user_id", user.id)
+      .order("order", { ascending: true });
+    if (existingError) throw existingError;
+
+    const existingIds = (existing ?? []).map((streak) => streak.id);
+    const unknown = ids.filter((id) => !existingIds.includes(id));
+    if (unknown.length > 0) {
+      return apiError(404, "Habit not found", unknown);
+    }
+
+    const ordered = [
+      ...ids,
+      ...existingIds.filter((id) => !ids.includes(id)),
+    ];
+    for (const [index, id] of ordered.entries()) {
+      if (existing?.find((streak) => streak.id === id)?.order === index) {
+        continue;
+      }
+      const { error } = await supabase
+        .from("streaks")
+        .update({ order: index })
+        .eq("id", id)
+        .eq("user_id", user.id);
+      if (error) throw error;
+    }
+
+    const habits = await loadApiHabits(supabase, user.id);
+    return NextResponse.json({ habits });
+  } catch (err) {
+    console.error("Error reordering habits:", err);
+    return apiError(500, "Could not reorder habits");
+  }
+}
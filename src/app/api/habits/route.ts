@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+import { getApiClient, hasAccess } from "@/lib/api-auth";
+import {
+  apiError,
+  loadApiHabits,
+  parseHabitInput,
+  readJsonObject,
+} from "@/lib/habits-api";
+
+// The signed-in user's habits, with streaks:
+//   GET  /api/habits                  active habits, in list order
+//   GET  /api/habits?archived=true    archived habits too
+//   POST /api/habits  { name, schedule?, unit?, target?, freeze_allowance?,
+//                       reminder_time? }
+// New habits go to the end of the list. Personal API tokens see only the
+// habits they cover, and only unrestricted write tokens can add habits.
+export async function GET(request: Request) {
+  const client = await getApiClient(request);
+  if (!client) return apiError(401, "Not signed in");
+
+  const includeArchived =
+    new URL(request.url).searchParams.get("archived") === "true";
+  try {
+    const habits = await loadApiHabits(client.supabase, client.user.id, {
+      includeArchived,
+      ids: client.token?.habit_ids ?? undefined,
+    });
+    return NextResponse.json({ habits });
+  } catch (err) {
+    console.error("Error loading habits:", err);
+    return apiError(500, "Could not load habits");
+  }
+}
+
+export async function POST(request: Request) {
+  const client = await getApiClient(request);
+  if (!client) return apiError(401, "Not signed in");
+  if (!hasAccess(client, "write")) {
+    return apiError(403, "This token can't create habits");
+  }
+  const { supabase, user } = client;
+
+  const body = await readJsonObject(request);
+  if (!body) return apiError(400, "Expected a JSON object");
+  const { values, errors } = parseHabitInput(body, false);
+  if (errors.length > 0) return apiError(400, "Invalid habit", errors);
+
+  try {
+    const { data: last, error: orderError } = await supabase
+      .from("streaks")
+      .select("order")
+      .eq("user_id", user.id)
+      .order("order", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (orderError) throw orderError;
+
+    const id = crypto.randomUUID();
+    const { error } = await supabase.from("streaks").insert({
+      frequency: "daily",
+      schedule: null,
+      ...values,
+      id,
+      user_id: user.id,
+      order: (last?.order ?? -1) + 1,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    });
+    if (error) throw error;
+
+    const [habit] = await loadApiHabits(supabase, user.id, { id });
+    return NextResponse.json({ habit }, { status: 201 });
+  } catch (err) {
+    console.error("Error creating habit:", err);
+    return apiError(500, "Could not create habit");
+  }
+}
@@ -0,0 +1,207 @@
+import { NextResponse } from "next/server";
+import { getUserClient } from "@/lib/api-auth";
+import { loadCalendar, parseScheduleInput, toPeriod } from "@/lib/habits-api";
+import type { HabitImport, ImportedCheckIn } from "@/lib/importers";
+import { parseSchedule, serializeSchedule } from "@/lib/schedule";
+import type { Schedule } from "@/lib/schedule";
+
+// Writes habits previewed in the import dialog:
+//   POST /api/import  { habits: [{ row, checkIns, mergeInto }] }
+// New habits go to the end of the list. With `mergeInto`, check-ins are
+// added to that existing habit instead, keeping any it already has. Periods
+// must already be the habit's own (days, week starts or months), as the
+// import dialog normalizes them.
+
+const MAX_HABITS = 200;
+const CHUNK_SIZE = 500;
+
+const isNumberOrNull = (value: unknown) =>
+  value === null || (typeof value === "number" && Number.isFinite(value));
+
+const isValidHabit = (habit: HabitImport): boolean =>
+  typeof habit?.row?.name === "string" &&
+  habit.row.name.trim() !== "" &&
+  (habit.row.schedule === null || typeof habit.row.schedule === "object") &&
+  parseScheduleInput(
+    { ...habit.row.schedule, type: habit.row.frequency },
+    []
+  ) !== null &&
+  (habit.mergeInto === null || typeof habit.mergeInto === "string") &&
+  isNumberOrNull(habit.row.target) &&
+  Number.isInteger(habit.row.freeze_allowance) &&
+  habit.row.freeze_allowance >= 0 &&
+  (habit.row.unit === null || typeof habit.row.unit === "string") &&
+  Array.isArray(habit.row.frozen_dates) &&
+  habit.row.frozen_dates.every((period) => typeof period === "string") &&
+  Array.isArray(habit.checkIns) &&
+  habit.checkIns.every(
+    (checkIn: ImportedCheckIn) =>
+      typeof checkIn?.period_id === "string" &&
+      isNumberOrNull(checkIn.value) &&
+      (checkIn.note === null || typeof checkIn.note === "string")
+  );
+
+// Whether every check-in and frozen period is a real one of the schedule's:
+// a day check-in in a weekly or monthly habit would never count
+const hasSchedulePeriods = (
+  habit: HabitImport,
+  schedule: Schedule,
+  weekStartsOn: number | undefined
+) =>
+  [
+    ...habit.checkIns.map((checkIn) => checkIn.period_id),
+    ...habit.row.frozen_dates,
+  ].every((period) => toPeriod(schedule, period, { weekStartsOn }) === period);
+
+// Imported history starts before the habit is created here; start it on
+// its first period so stats don't count the days before as missed
+const getCreatedAt = (habit: HabitImport): string => {
+  const first = [
+    ...habit.checkIns.map((checkIn) => checkIn.period_id),
+    ...habit.row.frozen_dates,
+  ].sort()[0];
+  if (!first) return new Date().toISOString();
+  const day = first.length === 7 ? `${first}-01` : first;
+  return new Date(`${day}T12:00:00Z`).toISOString();
+};
+
+export async function POST(request: Request) {
+  const client = await getUserClient(request);
+  if (!client) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+  const { supabase, user } = client;
+
+  const body = await request.json().catch(() => null);
+  const habits: HabitImport[] = body?.habits;
+  if (
+    !Array.isArray(habits) ||
+    habits.length === 0 ||
+    habits.length > MAX_HABITS ||
+    !habits.every(isValidHabit)
+  ) {
+    return NextResponse.json(
+      { error: "Expected a list of habits to import" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const [{ data: existing, error: existingError }, calendar] =
+      await Promise.all([
+        supabase
+          .from("streaks")
+          .select("id, order, frozen_dates, frequency, schedule")
+          .eq("user_id", user.id),
+        loadCalendar(supabase, user.id),
+      ]);
+    if (existingError) throw existingError;
+    const existingById = new Map(
+      (existing ?? []).map((streak) => [streak.id, streak])
+    );
+
+    // Checked before anything is written
+    for (const habit of habits) {
+      const current = habit.mergeInto && existingById.get(habit.mergeInto);
+      if (habit.mergeInto && !current) {
+        return NextResponse.json(
+          { error: "Habit to merge into not found" },
+          { status: 404 }
+        );
+      }
+      const schedule = current
+        ? parseSchedule(current.frequency, current.schedule)
+        : parseSchedule(habit.row.frequency, habit.row.schedule);
+      if (!hasSchedulePeriods(habit, schedule, calendar.weekStartsOn)) {
+        return NextResponse.json(
+          {
+            error: `Check-ins for "${habit.row.name}" don't fit its schedule`,
+          },
+          { status: 400 }
+        );
+      }
+    }
+    let nextOrder =
+      Math.max(-1, ...(existing ?? []).map((streak) => streak.order)) + 1;
+
+    let created = 0;
+    let merged = 0;
+    const checkIns: Record<string, unknown>[] = [];
+
+    for (const habit of habits) {
+      let habitId: string;
+      const target =
+        habit.row.target && habit.row.target > 0 ? habit.row.target : null;
+
+      if (habit.mergeInto) {
+        const current = existingById.get(habit.mergeInto)!;
+        habitId = current.id;
+        const frozenDates = Array.from(
+          new Set([...(current.frozen_dates ?? []), ...habit.row.frozen_dates])
+        ).sort();
+        const { error } = await supabase
+          .from("streaks")
+          .update({
+            frozen_dates: frozenDates,
+            updated_at: new Date().toISOString(),
+          })
+          .eq("id", habitId);
+        if (error) throw error;
+        merged++;
+      } else {
+        habitId = crypto.randomUUID();
+        const schedule = parseSchedule(habit.row.frequency, habit.row.schedule);
+        const { error } = await supabase.from("streaks").insert({
+          id: habitId,
+          user_id: user.id,
+          name: habit.row.name.trim(),
+          ...serializeSchedule(schedule),
+          unit: target ? habit.row.unit?.trim() || null : null,
+          target,
+          frozen_dates: habit.row.frozen_dates,
+          freeze_allowance: habit.row.freeze_allowance,
+          reminder_time: null,
+          public_slug: null,
+          order: nextOrder++,
+          created_at: getCreatedAt(habit),
+          updated_at: new Date().toISOString(),
+        });
+        if (error) throw error;
+        created++;
+      }
+
+      checkIns.push(
+        ...habit.checkIns.map((checkIn) => ({
+          habit_id: habitId,
+          user_id: user.id,
+          period_id: checkIn.period_id,
+          value: checkIn.value,
+          note: checkIn.note,
+        }))
+      );
+    }
+
+    // Existing check-ins win over imported ones for the same period
+    for (let i = 0; i < checkIns.length; i += CHUNK_SIZE) {
+      const { error } = await supabase
+        .from("check_ins")
+        .upsert(checkIns.slice(i, i + CHUNK_SIZE), {
+          onConflict: "habit_id,period_id",
+          ignoreDuplicates: true,
+        });
+      if (error) throw error;
+    }
+
+    return NextResponse.json({
+      created,
+      merged,
+      checkIns: checkIns.length,
+    });
+  } catch (err) {
+    console.error("Error importing habits:", err);
+    return NextResponse.json(
+      { error: "Import failed partway; some habits may have been added" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import crypto from "node:crypto";
+import { NextResponse } from "next/server";
+import { decryptPayload } from "@/lib/web-push";
+
+// Local stand-in for a browser vendor's push service, for testing reminders
+// without a real browser. Only available outside production.
+//
+//   GET  ?subscribe   creates a subscription whose endpoint points here;
+//                     POST it to /api/push/subscriptions as a signed-in user
+//   POST ?id=...      receives a push (as the scheduler sends it) and
+//                     decrypts it with the subscription's keys
+//   GET               lists the pushes received so far
+//
+// State lives in memory and is lost when the dev server restarts.
+
+interface StandInSubscription {
+  privateKey: string;
+  auth: string;
+}
+
+interface ReceivedPush {
+  id: string;
+  receivedAt: string;
+  hasVapidAuthorization: boolean;
+  payload: unknown;
+}
+
+const subscriptions = new Map<string, StandInSubscription>();
+const received: ReceivedPush[] = [];
+
+const notFound = () =>
+  NextResponse.json({ error: "Not found" }, { status: 404 });
+
+export async function GET(request: Request) {
+  if (process.env.NODE_ENV === "production") return notFound();
+
+  const url = new URL(request.url);
+  if (!url.searchParams.has("subscribe")) {
+    return NextResponse.json({ received });
+  }
+
+  const id = crypto.randomUUID();
+  const ecdh = crypto.createECDH("prime256v1");
+  ecdh.generateKeys();
+  const auth = crypto.randomBytes(16).toString("base64url");
+  subscriptions.set(id, { privateKey: ecdh.getPrivateKey("base64url"), auth });
+
+  return NextResponse.json({
+    endpoint: `${url.origin}${url.pathname}?id=${id}`,
+    keys: { p256dh: ecdh.getPublicKey("base64url"), auth },
+  });
+}
+
+export async function POST(request: Request) {
+  if (process.env.NODE_ENV === "production") return notFound();
+
+  const id = new URL(request.url).searchParams.get("id") ?? "";
+  const subscription = subscriptions.get(id);
+  // Like a real push service, unknown subscriptions are reported as gone
+  if (!subscription) {
+    return NextResponse.json({ error: "Subscription gone" }, { status: 410 });
+  }
+
+  const body = Buffer.from(await request.arrayBuffer());
+  let payload: unknown;
+  try {
+    payload = JSON.parse(
+      decryptPayload(body, subscription.privateKey, subscription.auth)
+    );
+  } catch (err) {
+    console.error("Stand-in push endpoint could not decrypt a push:", err);
+    return NextResponse.json({ error: "Bad payload" }, { status: 400 });
+  }
+
+  received.push({
+    id,
+    receivedAt: new Date().toISOString(),
+    hasVapidAuthorization: /^vapid t=.+, k=.+/.test(
+      request.headers.get("authorization") ?? ""
+    ),
+    payload,
+  });
+  return new NextResponse(null, { status: 201 });
+}
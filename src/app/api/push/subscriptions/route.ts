@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { getUserClient } from "@/lib/api-auth";
+import { isPushServiceEndpoint } from "@/lib/web-push";
+
+// Stores the Web Push subscriptions reminders are sent to, written through
+// row level security as the signed-in user
+export async function POST(request: Request) {
+  const client = await getUserClient(request);
+  if (!client) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const endpoint = body?.endpoint;
+  const p256dh = body?.keys?.p256dh;
+  const auth = body?.keys?.auth;
+  if (
+    typeof endpoint !== "string" ||
+    !isPushServiceEndpoint(endpoint) ||
+    typeof p256dh !== "string" ||
+    typeof auth !== "string"
+  ) {
+    return NextResponse.json(
+      { error: "Expected a push subscription" },
+      { status: 400 }
+    );
+  }
+
+  const { error } = await client.supabase
+    .from("push_subscriptions")
+    .upsert(
+      { user_id: client.user.id, endpoint, p256dh, auth },
+      { onConflict: "endpoint" }
+    );
+  if (error) {
+    console.error("Error saving push subscription:", error);
+    return NextResponse.json(
+      { error: "Could not save subscription" },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ ok: true }, { status: 201 });
+}
+
+export async function DELETE(request: Request) {
+  const client = await getUserClient(request);
+  if (!client) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  if (typeof body?.endpoint !== "string") {
+    return NextResponse.json({ error: "Expected an endpoint" }, { status: 400 });
+  }
+
+  const { error } = await client.supabase
+    .from("push_subscriptions")
+    .delete()
+    .eq("endpoint", body.endpoint);
+  if (error) {
+    console.error("Error removing push subscription:", error);
+    return NextResponse.json(
+      { error: "Could not remove subscription" },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ ok: true });
+}
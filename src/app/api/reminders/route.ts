@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { sendDueReminders } from "@/lib/reminders";
+
+// Runs the reminder scheduler. Called every few minutes by the cron job in
+// vercel.json, which sends `Authorization: Bearer $CRON_SECRET`.
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(await sendDueReminders());
+  } catch (err) {
+    console.error("Error sending reminders:", err);
+    return NextResponse.json(
+      { error: "Could not send reminders" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { getUserClient } from "@/lib/api-auth";
+import { UUID_PATTERN } from "@/lib/habits-api";
+import {
+  isShareCardTemplate,
+  isShareCardTheme,
+} from "@/lib/share-card-options";
+import { renderShareCard } from "@/lib/share-cards";
+import { getHabitSummary } from "@/lib/shared-habits";
+
+// Share card image for one of the signed-in user's habits:
+//   GET /api/share-card/<habit id>?template=square&theme=light&color=%23ef4444
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ habitId: string }> }
+) {
+  const client = await getUserClient(request);
+  if (!client) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const template = searchParams.get("template") ?? "square";
+  const theme = searchParams.get("theme") ?? "light";
+  const color = searchParams.get("color") ?? "#ef4444";
+  if (
+    !isShareCardTemplate(template) ||
+    !isShareCardTheme(theme) ||
+    !/^#[0-9a-f]{6}$/i.test(color)
+  ) {
+    return NextResponse.json(
+      { error: "Unknown template, theme or color" },
+      { status: 400 }
+    );
+  }
+
+  const { habitId } = await params;
+  let habit;
+  try {
+    habit = UUID_PATTERN.test(habitId)
+      ? await getHabitSummary(client.supabase, habitId)
+      : null;
+  } catch (err) {
+    console.error("Error loading habit for share card:", err);
+    return NextResponse.json(
+      { error: "Could not load habit" },
+      { status: 500 }
+    );
+  }
+  if (!habit) {
+    return NextResponse.json({ error: "Habit not found" }, { status: 404 });
+  }
+
+  const image = renderShareCard(habit, template, theme, color);
+  // Cards change with every check-in
+  image.headers.set("Cache-Control", "no-store");
+  return image;
+}
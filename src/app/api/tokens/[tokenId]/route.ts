@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { getUserClient } from "@/lib/api-auth";
+import { UUID_PATTERN } from "@/lib/habits-api";
+
+// Revokes one of the signed-in user's personal API tokens:
+//   DELETE /api/tokens/<id>
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ tokenId: string }> }
+) {
+  const client = await getUserClient(request);
+  if (!client) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const { tokenId } = await params;
+  if (!UUID_PATTERN.test(tokenId)) {
+    return NextResponse.json({ error: "Token not found" }, { status: 404 });
+  }
+  const { data, error } = await client.supabase
+    .from("api_tokens")
+    .delete()
+    .eq("id", tokenId)
+    .eq("user_id", client.user.id)
+    .select("id");
+  if (error) {
+    console.error("Error revoking API token:", error);
+    return NextResponse.json(
+      { error: "Could not revoke token" },
+      { status: 500 }
+    );
+  }
+  if (!data || data.length === 0) {
+    return NextResponse.json({ error: "Token not found" }, { status: 404 });
+  }
+  return NextResponse.json({ revoked: tokenId });
+}
@@ -0,0 +1,109 @@
+import { NextResponse } from "next/server";
+import { getUserClient } from "@/lib/api-auth";
+import { TOKEN_COLUMNS, generateToken } from "@/lib/api-tokens";
+import type { ApiTokenData } from "@/lib/supabase";
+
+// The signed-in user's personal API tokens. Only a browser session can
+// manage them, never another token:
+//   GET  /api/tokens
+//   POST /api/tokens  { name, access: "read" | "write", habit_ids: [...] | null }
+// The token itself is only in the POST response, as `secret`.
+
+const MAX_TOKENS = 50;
+
+export async function GET(request: Request) {
+  const client = await getUserClient(request);
+  if (!client) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const { data, error } = await client.supabase
+    .from("api_tokens")
+    .select(TOKEN_COLUMNS)
+    .eq("user_id", client.user.id)
+    .order("created_at", { ascending: false });
+  if (error) {
+    console.error("Error loading API tokens:", error);
+    return NextResponse.json(
+      { error: "Could not load tokens" },
+      { status: 500 }
+    );
+  }
+  return NextResponse.json({ tokens: data });
+}
+
+export async function POST(request: Request) {
+  const client = await getUserClient(request);
+  if (!client) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+  const { supabase, user } = client;
+
+  const body = await request.json().catch(() => null);
+  const name = typeof body?.name === "string" ? body.name.trim() : "";
+  const access = body?.access;
+  const habitIds = body?.habit_ids;
+  if (
+    !name ||
+    name.length > 100 ||
+    (access !== "read" && access !== "write") ||
+    (habitIds !== null &&
+      (!Array.isArray(habitIds) ||
+        habitIds.length === 0 ||
+        !habitIds.every((id) => typeof id === "string")))
+  ) {
+    return NextResponse.json(
+      {
+        error:
+          "Expected a name, access of read or write, and habit_ids (a list, or null for all habits)",
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const [tokensResult, habitsResult] = await Promise.all([
+      supabase
+        .from("api_tokens")
+        .select("id", { count: "exact", head: true })
+        .eq("user_id", user.id),
+      supabase.from("streaks").select("id").eq("user_id", user.id),
+    ]);
+    if (tokensResult.error) throw tokensResult.error;
+    if (habitsResult.error) throw habitsResult.error;
+
+    if ((tokensResult.count ?? 0) >= MAX_TOKENS) {
+      return NextResponse.json(
+        { error: `You can have up to ${MAX_TOKENS} tokens` },
+        { status: 400 }
+      );
+    }
+    const ownIds = (habitsResult.data ?? []).map((habit) => habit.id);
+    if (habitIds && !habitIds.every((id: string) => ownIds.includes(id))) {
+      return NextResponse.json({ error: "Habit not found" }, { status: 404 });
+    }
+
+    const { token, hash, prefix } = generateToken();
+    const { data, error } = await supabase
+      .from("api_tokens")
+      .insert({
+        user_id: user.id,
+        name,
+        token_hash: hash,
+        prefix,
+        access,
+        habit_ids: habitIds,
+      })
+      .select(TOKEN_COLUMNS)
+      .single<ApiTokenData>();
+    if (error) throw error;
+
+    return NextResponse.json({ token: data, secret: token }, { status: 201 });
+  } catch (err) {
+    console.error("Error creating API token:", err);
+    return NextResponse.json(
+      { error: "Could not create token" },
+      { status: 500 }
+    );
+  }
+}
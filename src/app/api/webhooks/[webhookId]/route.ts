@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import { getUserClient } from "@/lib/api-auth";
+import { UUID_PATTERN, apiError, readJsonObject } from "@/lib/habits-api";
+import { createAdminClient } from "@/lib/supabase-admin";
+import { parseWebhookInput } from "@/lib/webhooks";
+
+// One of the signed-in user's webhooks:
+//   PATCH  /api/webhooks/<id>  { url?, events?, enabled? }
+//   DELETE /api/webhooks/<id>
+
+type Params = { params: Promise<{ webhookId: string }> };
+
+export async function PATCH(request: Request, { params }: Params) {
+  const client = await getUserClient(request);
+  if (!client) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const { webhookId } = await params;
+  if (!UUID_PATTERN.test(webhookId)) {
+    return apiError(404, "Webhook not found");
+  }
+  const body = await readJsonObject(request);
+  if (!body) return apiError(400, "Expected a JSON object");
+  const { values, errors } = parseWebhookInput(body, true);
+  if (errors.length > 0) return apiError(400, "Invalid webhook", errors);
+
+  // Users can't write webhooks themselves, so the URL is always checked
+  const { data, error } = await createAdminClient()
+    .from("webhooks")
+    .update(values)
+    .eq("id", webhookId)
+    .eq("user_id", client.user.id)
+    .select("*");
+  if (error) {
+    console.error("Error updating webhook:", error);
+    return NextResponse.json(
+      { error: "Could not update webhook" },
+      { status: 500 }
+    );
+  }
+  if (!data || data.length === 0) {
+    return apiError(404, "Webhook not found");
+  }
+  return NextResponse.json({ webhook: data[0] });
+}
+
+export async function DELETE(request: Request, { params }: Params) {
+  const client = await getUserClient(request);
+  if (!client) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const { webhookId } = await params;
+  if (!UUID_PATTERN.test(webhookId)) {
+    return apiError(404, "Webhook not found");
+  }
+  const { data, error } = await client.supabase
+    .from("webhooks")
+    .delete()
+    .eq("id", webhookId)
+    .eq("user_id", client.user.id)
+    .select("id");
+  if (error) {
+    console.error("Error deleting webhook:", error);
+    return NextResponse.json(
+      { error: "Could not delete webhook" },
+      { status: 500 }
+    );
+  }
+  if (!data || data.length === 0) {
+    return apiError(404, "Webhook not found");
+  }
+  return NextResponse.json({ deleted: webhookId });
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { runWebhooks } from "@/lib/webhooks";
+
+// Runs the webhook dispatcher. Called every few minutes by the cron job in
+// vercel.json, which sends `Authorization: Bearer $CRON_SECRET`.
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(await runWebhooks());
+  } catch (err) {
+    console.error("Error dispatching webhooks:", err);
+    return NextResponse.json(
+      { error: "Could not dispatch webhooks" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import { NextResponse } from "next/server";
+import { getUserClient } from "@/lib/api-auth";
+import { apiError, readJsonObject } from "@/lib/habits-api";
+import { createAdminClient } from "@/lib/supabase-admin";
+import { generateWebhookSecret, parseWebhookInput } from "@/lib/webhooks";
+import type { WebhookData } from "@/lib/supabase";
+
+// The signed-in user's webhooks and their recent deliveries. Only a browser
+// session can manage them, never an API token:
+//   GET  /api/webhooks
+//   POST /api/webhooks  { url, events: ["check_in.added", ...] }
+
+const MAX_WEBHOOKS = 10;
+const DELIVERY_LOG_SIZE = 50;
+
+export async function GET(request: Request) {
+  const client = await getUserClient(request);
+  if (!client) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+  const { supabase, user } = client;
+
+  const [webhooksResult, deliveriesResult] = await Promise.all([
+    supabase
+      .from("webhooks")
+      .select("*")
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: true }),
+    supabase
+      .from("webhook_deliveries")
+      .select("*")
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: false })
+      .limit(DELIVERY_LOG_SIZE),
+  ]);
+  const error = webhooksResult.error ?? deliveriesResult.error;
+  if (error) {
+    console.error("Error loading webhooks:", error);
+    return NextResponse.json(
+      { error: "Could not load webhooks" },
+      { status: 500 }
+    );
+  }
+  return NextResponse.json({
+    webhooks: webhooksResult.data,
+    deliveries: deliveriesResult.data,
+  });
+}
+
+export async function POST(request: Request) {
+  const client = await getUserClient(request);
+  if (!client) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+  const { supabase, user } = client;
+
+  const body = await readJsonObject(request);
+  if (!body) return apiError(400, "Expected a JSON object");
+  const { values, errors } = parseWebhookInput(body, false);
+  if (errors.length > 0) return apiError(400, "Invalid webhook", errors);
+
+  try {
+    const { count, error: countError } = await supabase
+      .from("webhooks")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", user.id);
+    if (countError) throw countError;
+    if ((count ?? 0) >= MAX_WEBHOOKS) {
+      return apiError(400, `You can have up to ${MAX_WEBHOOKS} webhooks`);
+    }
+
+    // Users can't write webhooks themselves, so the URL is always checked
+    const { data, error } = await createAdminClient()
+      .from("webhooks")
+      .insert({ ...values, user_id: user.id, secret: generateWebhookSecret() })
+      .select("*")
+      .single<WebhookData>();
+    if (error) throw error;
+
+    return NextResponse.json({ webhook: data }, { status: 201 });
+  } catch (err) {
+    console.error("Error creating webhook:", err);
+    return NextResponse.json(
+      { error: "Could not create webhook" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,12 @@
+import { renderAppIcon } from "@/lib/app-icon";
+
+// iOS ignores the manifest's icons and masks this one itself
+export const size = {
+  width: 180,
+  height: 180,
+};
+export const contentType = "image/png";
+
+export default function AppleIcon() {
+  return renderAppIcon(size.width, true);
+}
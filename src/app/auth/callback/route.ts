@@ -1,41 +1,37 @@
-import { createServerClient } from "@supabase/ssr";
 import { NextResponse } from "next/server";
-import { cookies } from "next/headers";
+import {
+  getLoginPath,
+  getSafeNextPath,
+  toAuthError,
+} from "@/lib/auth-redirects";
+import { createServerSupabaseClient } from "@/lib/supabase-server";
 
+// Where OAuth providers and magic links return to, with either a `code` to
+// exchange for a session or an `error`. `next` is where to go afterwards.
 export async function GET(request: Request) {
-  const requestUrl = new URL(request.url);
-  const code = requestUrl.searchParams.get("code");
-  const origin = requestUrl.origin;
+  const { searchParams, origin } = new URL(request.url);
+  const next = getSafeNextPath(searchParams.get("next"));
+  const code = searchParams.get("code");
+  const providerError = searchParams.get("error");
 
-  if (code) {
-    const cookieStore = await cookies();
-    const supabase = createServerClient(
-      process.env.NEXT_PUBLIC_SUPABASE_URL!,
-      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
-      {
-        cookies: {
-          getAll() {
-            return cookieStore.getAll();
-          },
-          setAll(cookiesToSet) {
-            try {
-              cookiesToSet.forEach(({ name, value, options }) =>
-                cookieStore.set(name, value, options)
-              );
-            } catch {
-              // The `setAll` method was called from a Server Component.
-              // This can be ignored if you have middleware refreshing
-              // user sessions.
-            }
-          },
-        },
-      }
+  if (providerError || !code) {
+    console.error(
+      "Sign-in failed:",
+      providerError ?? "no code",
+      searchParams.get("error_description") ?? ""
     );
+    const error = toAuthError(searchParams.get("error_code") ?? providerError);
+    return NextResponse.redirect(new URL(getLoginPath(next, error), origin));
+  }
 
-    await supabase.auth.exchangeCodeForSession(code);
+  const supabase = await createServerSupabaseClient();
+  const { error } = await supabase.auth.exchangeCodeForSession(code);
+  if (error) {
+    console.error("Error exchanging auth code:", error);
+    return NextResponse.redirect(
+      new URL(getLoginPath(next, toAuthError(error.code)), origin)
+    );
   }
 
-  // Redirect to the home page after successful authentication
-  return NextResponse.redirect(new URL("/", origin));
+  return NextResponse.redirect(new URL(next, origin));
 }
-
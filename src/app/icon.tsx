@@ -1,4 +1,4 @@
-import { ImageResponse } from 'next/og'
+import { renderAppIcon } from '@/lib/app-icon'
  
 // Image metadata
 export const size = {
@@ -7,27 +7,7 @@ export const size = {
 }
 export const contentType = 'image/png'
  
-// Image generation
+// Image generation (shared with the home screen icons)
 export default function Icon() {
-  return new ImageResponse(
-    (
-      <div
-        style={{
-          fontSize: 24,
-          background: 'white',
-          width: '100%',
-          height: '100%',
-          display: 'flex',
-          alignItems: 'center',
-          justifyContent: 'center',
-        }}
-      >
-        ⛓️
-      </div>
-    ),
-    {
-      ...size,
-    }
-  )
+  return renderAppIcon(size.width)
 }
-
@@ -0,0 +1,25 @@
+import { renderAppIcon } from "@/lib/app-icon";
+
+// Home screen icons referenced by the web app manifest, e.g.
+// /icons/512.png and /icons/maskable-512.png
+const ICONS: Record<string, { size: number; maskable: boolean }> = {
+  "192.png": { size: 192, maskable: false },
+  "512.png": { size: 512, maskable: false },
+  "maskable-192.png": { size: 192, maskable: true },
+  "maskable-512.png": { size: 512, maskable: true },
+};
+
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return Object.keys(ICONS).map((name) => ({ name }));
+}
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  const icon = ICONS[(await params).name];
+  if (!icon) return new Response("Not found", { status: 404 });
+  return renderAppIcon(icon.size, icon.maskable);
+}
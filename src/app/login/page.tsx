@@ -3,6 +3,7 @@
 import { Auth } from "@supabase/auth-ui-react";
 import { ThemeSupa } from "@supabase/auth-ui-shared";
 import { supabase } from "@/lib/supabase";
+import { getAuthErrorMessage, getSafeNextPath } from "@/lib/auth-redirects";
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 
@@ -13,13 +14,17 @@ export default function LoginPage() {
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
+    const next = getSafeNextPath(
+      new URLSearchParams(window.location.search).get("next")
+    );
+
     // Check if user is already logged in
     const checkUser = async () => {
       const {
         data: { session },
       } = await supabase.auth.getSession();
       if (session) {
-        router.push("/");
+        router.push(next);
       } else {
         setIsLoading(false);
       }
@@ -32,7 +37,7 @@ export default function LoginPage() {
       data: { subscription },
     } = supabase.auth.onAuthStateChange((event, session) => {
       if (event === "SIGNED_IN" && session) {
-        router.push("/");
+        router.push(next);
       }
     });
 
@@ -49,6 +54,13 @@ export default function LoginPage() {
     );
   }
 
+  // Set by the auth callback and the proxy
+  const params = new URLSearchParams(window.location.search);
+  const next = getSafeNextPath(params.get("next"));
+  const errorMessage = getAuthErrorMessage(params.get("error"));
+  const callbackUrl = new URL("/auth/callback", window.location.origin);
+  if (next !== "/") callbackUrl.searchParams.set("next", next);
+
   return (
     <div className="min-h-screen bg-linear-to-br from-amber-50 via-orange-50 to-red-50 flex items-center justify-center p-8">
       <div className="w-full max-w-md">
@@ -61,6 +73,15 @@ export default function LoginPage() {
           </p>
         </div>
 
+        {errorMessage && (
+          <div
+            role="alert"
+            className="mb-4 rounded-lg bg-red-50 border border-red-200 p-3 text-sm text-red-800"
+          >
+            {errorMessage}
+          </div>
+        )}
+
         <div className="bg-white rounded-2xl shadow-xl p-8">
           <Auth
             supabaseClient={supabase}
@@ -81,7 +102,7 @@ export default function LoginPage() {
               },
             }}
             providers={["github", "google", "twitter", "spotify"]}
-            redirectTo={`${window.location.origin}/auth/callback`}
+            redirectTo={callbackUrl.toString()}
             providerScopes={{
               github: "user:email",
               google:
@@ -0,0 +1,69 @@
+import { ImageResponse } from "next/og";
+import { getStreakUnit } from "@/lib/schedule";
+import { getSharedHabit } from "@/lib/shared-habits";
+
+export const alt = "Habit streak on Don't Break the Chain";
+export const size = {
+  width: 1200,
+  height: 630,
+};
+export const contentType = "image/png";
+
+// Unfurl image for shared links: the habit name and its current chain
+export default async function Image({
+  params,
+}: {
+  params: Promise<{ slug: string }>;
+}) {
+  const habit = await getSharedHabit((await params).slug);
+  const unit = habit ? getStreakUnit(habit.schedule) : "day";
+  const count = habit?.currentStreak ?? 0;
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          flexDirection: "column",
+          alignItems: "center",
+          justifyContent: "center",
+          background:
+            "linear-gradient(135deg, #fffbeb 0%, #ffedd5 50%, #fee2e2 100%)",
+          fontFamily: "sans-serif",
+        }}
+      >
+        <div style={{ fontSize: 64, fontWeight: 700, color: "#111827" }}>
+          {habit?.name ?? "Don't Break the Chain"}
+        </div>
+        <div
+          style={{
+            fontSize: 220,
+            fontWeight: 900,
+            color: "#ef4444",
+            lineHeight: 1,
+            marginTop: 24,
+          }}
+        >
+          {count}
+        </div>
+        <div
+          style={{
+            fontSize: 40,
+            fontWeight: 700,
+            color: "#374151",
+            textTransform: "uppercase",
+            letterSpacing: 4,
+          }}
+        >
+          {`${unit}${count !== 1 ? "s" : ""} in a row`}
+        </div>
+        <div style={{ fontSize: 28, color: "#6b7280", marginTop: 48 }}>
+          ⛓️ Don&apos;t Break the Chain
+        </div>
+      </div>
+    ),
+    { ...size }
+  );
+}
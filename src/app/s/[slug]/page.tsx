@@ -0,0 +1,103 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import Heatmap from "@/components/Heatmap";
+import { getLoginPath } from "@/lib/auth-redirects";
+import { describeSchedule, getStreakUnit } from "@/lib/schedule";
+import { getSharedHabit } from "@/lib/shared-habits";
+
+export const dynamic = "force-dynamic";
+
+type Props = { params: Promise<{ slug: string }> };
+
+const plural = (count: number, unit: string) =>
+  `${count} ${unit}${count !== 1 ? "s" : ""}`;
+
+// The Open Graph image comes from ./opengraph-image.tsx
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const habit = await getSharedHabit((await params).slug);
+  if (!habit) return { title: "Don't Break the Chain" };
+
+  const title = `${habit.name}: ${plural(
+    habit.currentStreak,
+    getStreakUnit(habit.schedule)
+  )} and counting`;
+  const description = `${describeSchedule(habit.schedule)} habit tracked with Don't Break the Chain`;
+  return {
+    title,
+    description,
+    openGraph: { title, description },
+    twitter: { card: "summary_large_image", title, description },
+  };
+}
+
+// Read-only view of a habit its owner chose to share
+export default async function SharedStreakPage({ params }: Props) {
+  const { slug } = await params;
+  const habit = await getSharedHabit(slug);
+  if (!habit) notFound();
+
+  const unit = getStreakUnit(habit.schedule);
+
+  return (
+    <div className="min-h-screen bg-linear-to-br from-amber-50 via-orange-50 to-red-50 font-sans p-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="text-center mt-5 mb-10">
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">
+            {habit.name}
+          </h1>
+          <p className="text-gray-600">
+            {describeSchedule(habit.schedule)}
+            {habit.target &&
+              ` · ${habit.target}${habit.unit ? ` ${habit.unit}` : ""} per ${unit}`}
+          </p>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-lg p-8">
+          <div className="grid grid-cols-2 gap-4 mb-8 text-center">
+            <div>
+              <div className="text-6xl font-black text-red-500">
+                {habit.currentStreak}
+              </div>
+              <div className="text-sm text-gray-500 uppercase tracking-wide">
+                {unit} chain
+              </div>
+            </div>
+            <div>
+              <div className="text-6xl font-black text-gray-900">
+                {habit.longestStreak}
+              </div>
+              <div className="text-sm text-gray-500 uppercase tracking-wide">
+                Best {unit}s
+              </div>
+            </div>
+          </div>
+
+          <div className="flex justify-center">
+            <Heatmap
+              completedDates={habit.completedDates}
+              frozenDates={habit.frozenDates}
+              schedule={habit.schedule}
+              color="#ef4444"
+              today={habit.today}
+              weekStartsOn={habit.calendar.weekStartsOn}
+            />
+          </div>
+        </div>
+
+        <p className="text-center text-gray-600 mt-8">
+          <Link href="/" className="font-semibold text-red-500 hover:underline">
+            Start your own chain
+          </Link>
+          {" · "}
+          <Link
+            href={getLoginPath(`/s/${slug}`)}
+            className="hover:underline"
+          >
+            Sign in
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
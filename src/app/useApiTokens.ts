@@ -0,0 +1,66 @@
+import { useState } from "react";
+import type { NewApiToken } from "@/components/ApiTokensDialog";
+import { requestApi } from "@/lib/api-client";
+import type { ApiTokenData } from "@/lib/supabase";
+
+// The API tokens dialog: whether it's open, the user's tokens and the
+// requests that change them
+export const useApiTokens = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  // Null until loaded
+  const [tokens, setTokens] = useState<ApiTokenData[] | null>(null);
+
+  const open = async () => {
+    setIsOpen(true);
+    setTokens(null);
+
+    try {
+      const body = await requestApi("/api/tokens");
+      setTokens(body.tokens);
+    } catch (err) {
+      console.error("Error loading API tokens:", err);
+      alert("Failed to load your API tokens. Please try again.");
+      setIsOpen(false);
+    }
+  };
+
+  // Resolves to the new token's secret
+  const create = async (token: NewApiToken): Promise<string | null> => {
+    try {
+      const body = await requestApi("/api/tokens", {
+        method: "POST",
+        body: token,
+      });
+      setTokens((current) => [body.token, ...(current ?? [])]);
+      return body.secret;
+    } catch (err) {
+      console.error("Error creating API token:", err);
+      alert(`Failed to create token: ${(err as Error).message}`);
+      return null;
+    }
+  };
+
+  const revoke = async (id: string) => {
+    try {
+      await requestApi(`/api/tokens/${id}`, {
+        method: "DELETE",
+        allowNotFound: true,
+      });
+      setTokens((current) =>
+        (current ?? []).filter((token) => token.id !== id)
+      );
+    } catch (err) {
+      console.error("Error revoking API token:", err);
+      alert("Failed to revoke the token. Please try again.");
+    }
+  };
+
+  return {
+    isOpen,
+    tokens,
+    open,
+    close: () => setIsOpen(false),
+    create,
+    revoke,
+  };
+};
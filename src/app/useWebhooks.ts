@@ -0,0 +1,95 @@
+import { useState } from "react";
+import type { WebhookChanges } from "@/components/WebhooksDialog";
+import { requestApi } from "@/lib/api-client";
+import type { WebhookData, WebhookDeliveryData } from "@/lib/supabase";
+
+// The webhooks dialog: whether it's open, the user's webhooks with their
+// recent deliveries, and the requests that change them
+export const useWebhooks = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  // Null until loaded
+  const [webhooks, setWebhooks] = useState<WebhookData[] | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDeliveryData[]>([]);
+
+  const load = async () => {
+    try {
+      const body = await requestApi("/api/webhooks");
+      setWebhooks(body.webhooks);
+      setDeliveries(body.deliveries);
+      return true;
+    } catch (err) {
+      console.error("Error loading webhooks:", err);
+      alert("Failed to load your webhooks. Please try again.");
+      return false;
+    }
+  };
+
+  const open = async () => {
+    setIsOpen(true);
+    setWebhooks(null);
+    setDeliveries([]);
+    if (!(await load())) setIsOpen(false);
+  };
+
+  const create = async (webhook: Pick<WebhookData, "url" | "events">) => {
+    try {
+      const body = await requestApi("/api/webhooks", {
+        method: "POST",
+        body: webhook,
+      });
+      setWebhooks((current) => [...(current ?? []), body.webhook]);
+      return true;
+    } catch (err) {
+      console.error("Error creating webhook:", err);
+      alert(`Failed to add webhook: ${(err as Error).message}`);
+      return false;
+    }
+  };
+
+  const update = async (id: string, changes: WebhookChanges) => {
+    try {
+      const body = await requestApi(`/api/webhooks/${id}`, {
+        method: "PATCH",
+        body: changes,
+      });
+      setWebhooks((current) =>
+        (current ?? []).map((webhook) =>
+          webhook.id === id ? body.webhook : webhook
+        )
+      );
+    } catch (err) {
+      console.error("Error updating webhook:", err);
+      alert(`Failed to update webhook: ${(err as Error).message}`);
+    }
+  };
+
+  const remove = async (id: string) => {
+    try {
+      await requestApi(`/api/webhooks/${id}`, {
+        method: "DELETE",
+        allowNotFound: true,
+      });
+      setWebhooks((current) =>
+        (current ?? []).filter((webhook) => webhook.id !== id)
+      );
+      setDeliveries((current) =>
+        current.filter((delivery) => delivery.webhook_id !== id)
+      );
+    } catch (err) {
+      console.error("Error deleting webhook:", err);
+      alert("Failed to delete the webhook. Please try again.");
+    }
+  };
+
+  return {
+    isOpen,
+    webhooks,
+    deliveries,
+    open,
+    close: () => setIsOpen(false),
+    refresh: load,
+    create,
+    update,
+    remove,
+  };
+};
@@ -0,0 +1,241 @@
+import { useState } from "react";
+import type { ApiTokenData } from "@/lib/supabase";
+
+export interface NewApiToken {
+  name: string;
+  access: ApiTokenData["access"];
+  habit_ids: string[] | null;
+}
+
+interface ApiTokensDialogProps {
+  // Null while loading
+  tokens: ApiTokenData[] | null;
+  habits: { id: string; name: string }[];
+  // Resolves to the new token, which is only shown this once
+  onCreate: (token: NewApiToken) => Promise<string | null>;
+  onRevoke: (id: string) => void;
+  onCopy: (text: string) => void;
+  onClose: () => void;
+}
+
+const formatDate = (timestamp: string | null) =>
+  timestamp
+    ? new Date(timestamp).toLocaleDateString("en-US", {
+        month: "short",
+        day: "numeric",
+        year: "numeric",
+      })
+    : "never";
+
+export default function ApiTokensDialog({
+  tokens,
+  habits,
+  onCreate,
+  onRevoke,
+  onCopy,
+  onClose,
+}: ApiTokensDialogProps) {
+  const [name, setName] = useState("");
+  const [access, setAccess] = useState<ApiTokenData["access"]>("write");
+  // Null for all habits
+  const [habitIds, setHabitIds] = useState<string[] | null>(null);
+  const [secret, setSecret] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const habitNames = new Map(habits.map((habit) => [habit.id, habit.name]));
+  const canCreate = name.trim() !== "" && habitIds?.length !== 0 && !isBusy;
+
+  const handleCreate = async () => {
+    setIsBusy(true);
+    const created = await onCreate({
+      name: name.trim(),
+      access,
+      habit_ids: habitIds,
+    });
+    setIsBusy(false);
+    if (created) {
+      setSecret(created);
+      setName("");
+      setHabitIds(null);
+    }
+  };
+
+  const toggleHabit = (id: string) =>
+    setHabitIds((current) =>
+      current?.includes(id)
+        ? current.filter((habitId) => habitId !== id)
+        : [...(current ?? []), id]
+    );
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4 overflow-y-auto"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-2xl p-6 max-w-2xl w-full my-8"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-xl font-bold text-gray-900 mb-2">API tokens</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Tokens let scripts and automations (git hooks, Shortcuts, Home
+          Assistant) use the API at <code>/api/habits</code> as you. Send one
+          as <code>Authorization: Bearer &lt;token&gt;</code>.
+        </p>
+
+        {secret && (
+          <div className="mb-4 rounded-lg bg-green-50 p-3 text-sm text-green-900">
+            <p className="mb-2">
+              Copy your new token now. It won&apos;t be shown again.
+            </p>
+            <div className="flex items-center gap-2">
+              <input
+                readOnly
+                value={secret}
+                onFocus={(e) => e.currentTarget.select()}
+                className="flex-1 min-w-0 px-2 py-1 border border-green-300 rounded bg-white font-mono text-gray-900"
+              />
+              <button
+                onClick={() => onCopy(secret)}
+                className="px-3 py-1 rounded bg-white border border-gray-300 text-gray-700 hover:bg-gray-100"
+              >
+                Copy
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="mb-6 border border-gray-200 rounded-lg p-4">
+          <h3 className="text-sm font-medium text-gray-700 mb-2">New token</h3>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name, e.g. Git hook"
+            maxLength={100}
+            className="w-full px-3 py-2 mb-3 border border-gray-300 rounded-lg text-gray-900"
+          />
+          <div className="flex flex-wrap gap-4 mb-3 text-sm text-gray-700">
+            <label className="flex items-center gap-1">
+              <input
+                type="radio"
+                checked={access === "write"}
+                onChange={() => setAccess("write")}
+              />
+              Read and write
+            </label>
+            <label className="flex items-center gap-1">
+              <input
+                type="radio"
+                checked={access === "read"}
+                onChange={() => setAccess("read")}
+              />
+              Read only
+            </label>
+          </div>
+          <div className="flex flex-wrap gap-4 mb-2 text-sm text-gray-700">
+            <label className="flex items-center gap-1">
+              <input
+                type="radio"
+                checked={habitIds === null}
+                onChange={() => setHabitIds(null)}
+              />
+              All habits
+            </label>
+            <label className="flex items-center gap-1">
+              <input
+                type="radio"
+                checked={habitIds !== null}
+                onChange={() => setHabitIds([])}
+              />
+              Only some habits
+            </label>
+          </div>
+          {habitIds !== null && (
+            <div className="mb-3 max-h-40 overflow-y-auto grid grid-cols-2 gap-1 text-sm text-gray-700">
+              {habits.map((habit) => (
+                <label key={habit.id} className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={habitIds.includes(habit.id)}
+                    onChange={() => toggleHabit(habit.id)}
+                  />
+                  <span className="truncate">{habit.name}</span>
+                </label>
+              ))}
+            </div>
+          )}
+          <button
+            onClick={handleCreate}
+            disabled={!canCreate}
+            className="px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+          >
+            {isBusy ? "Creating..." : "Create token"}
+          </button>
+        </div>
+
+        {tokens === null ? (
+          <p className="mb-4 text-sm text-gray-500">Loading tokens...</p>
+        ) : tokens.length === 0 ? (
+          <p className="mb-4 text-sm text-gray-500">No tokens yet.</p>
+        ) : (
+          <ul className="mb-4 space-y-2">
+            {tokens.map((token) => (
+              <li
+                key={token.id}
+                className="flex items-center gap-3 px-4 py-3 rounded-lg border border-gray-200"
+              >
+                <div className="flex-1 min-w-0 text-sm">
+                  <div className="font-medium text-gray-900 truncate">
+                    {token.name}{" "}
+                    <span className="font-mono text-xs text-gray-500">
+                      {token.prefix}…
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {token.access === "write"
+                      ? "Read and write"
+                      : "Read only"}
+                    {" · "}
+                    {token.habit_ids
+                      ? token.habit_ids
+                          .map(
+                            (id) => habitNames.get(id) ?? "deleted habit"
+                          )
+                          .join(", ")
+                      : "All habits"}
+                    {" · "}
+                    Created {formatDate(token.created_at)}, last used{" "}
+                    {formatDate(token.last_used_at)}
+                  </div>
+                </div>
+                <button
+                  onClick={() => {
+                    if (
+                      confirm(
+                        `Revoke "${token.name}"? Anything using it will stop working.`
+                      )
+                    ) {
+                      onRevoke(token.id);
+                    }
+                  }}
+                  className="px-3 py-1 text-sm rounded text-red-600 hover:bg-red-50"
+                >
+                  Revoke
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { useState } from "react";
+
+interface ArchivedHabit {
+  id: string;
+  name: string;
+  archivedAt: string | null;
+  color?: string;
+}
+
+interface ArchivedHabitsProps {
+  habits: ArchivedHabit[];
+  onRestore: (id: string) => void;
+  onPurge: (id: string) => void;
+}
+
+const formatArchivedAt = (timestamp: string | null) =>
+  timestamp
+    ? new Date(timestamp).toLocaleDateString("en-US", {
+        month: "short",
+        day: "numeric",
+        year: "numeric",
+      })
+    : "";
+
+// Collapsible list of archived habits below the main list
+export default function ArchivedHabits({
+  habits,
+  onRestore,
+  onPurge,
+}: ArchivedHabitsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (habits.length === 0) return null;
+
+  return (
+    <div className="mb-8 max-w-4xl mx-auto">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-sm font-medium text-gray-600 hover:text-gray-900"
+      >
+        {isOpen ? "▾" : "▸"} Archived ({habits.length})
+      </button>
+
+      {isOpen && (
+        <ul className="mt-3 space-y-2">
+          {habits.map((habit) => (
+            <li
+              key={habit.id}
+              className="flex items-center gap-3 px-4 py-3 bg-white/70 rounded-lg border border-gray-200"
+              style={{ borderLeft: `6px solid ${habit.color}` }}
+            >
+              <div className="flex-1 min-w-0">
+                <div className="font-medium text-gray-800 truncate">
+                  {habit.name}
+                </div>
+                <div className="text-xs text-gray-500">
+                  Archived {formatArchivedAt(habit.archivedAt)}
+                </div>
+              </div>
+              <button
+                onClick={() => onRestore(habit.id)}
+                className="px-3 py-1 text-sm rounded bg-white border border-gray-300 text-gray-700 hover:bg-gray-100"
+              >
+                Restore
+              </button>
+              <button
+                onClick={() => onPurge(habit.id)}
+                className="px-3 py-1 text-sm rounded text-red-600 hover:bg-red-50"
+              >
+                Delete forever
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+import { WEEKDAY_NAMES, getPeriodKind } from "@/lib/schedule";
+import type { Schedule } from "@/lib/schedule";
+import type { CheckInData } from "@/lib/supabase";
+import {
+  addDays,
+  addMonths,
+  getMonthIdentifier,
+  getWeekIdentifier,
+  isScheduledDay,
+  parseDateString,
+} from "@/lib/streak-engine";
+
+interface HeatmapProps {
+  completedDates: Set<string>;
+  frozenDates: Set<string>;
+  entries?: Record<string, CheckInData>;
+  target?: number | null;
+  schedule: Schedule;
+  color?: string;
+  today: string;
+  weekStartsOn?: number;
+  // Without handlers the heatmap is read-only (e.g. on public pages)
+  onToggle?: (identifier: string, button: HTMLElement) => void;
+  onFreeze?: (identifier: string) => void;
+}
+
+const WEEKS = 53;
+
+const formatMonth = (dateString: string) =>
+  parseDateString(dateString).toLocaleDateString("en-US", { month: "short" });
+
+const formatDay = (dateString: string) =>
+  parseDateString(dateString).toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+  });
+
+export default function Heatmap({
+  completedDates,
+  frozenDates,
+  entries = {},
+  target,
+  schedule,
+  color = "#16a34a",
+  today,
+  weekStartsOn = 1,
+  onToggle,
+  onFreeze,
+}: HeatmapProps) {
+  const kind = getPeriodKind(schedule);
+  const firstWeek = addDays(
+    getWeekIdentifier(today, weekStartsOn),
+    -(WEEKS - 1) * 7
+  );
+  const weeks = Array.from({ length: WEEKS }, (_, i) =>
+    addDays(firstWeek, i * 7)
+  );
+  // Label the first, third and fifth day of the week
+  const dayLabels = Array.from({ length: 7 }, (_, i) =>
+    i % 2 === 0 && i < 6 ? WEEKDAY_NAMES[(weekStartsOn + i) % 7] : ""
+  );
+
+  const renderCell = (
+    identifier: string,
+    title: string,
+    isFuture: boolean,
+    isScheduled = true
+  ) => {
+    if (isFuture) {
+      return <div key={identifier} className="w-3 h-3" />;
+    }
+    const isCompleted = completedDates.has(identifier);
+    const isFrozen = !isCompleted && frozenDates.has(identifier);
+    const quantity = entries[identifier]?.value;
+    // Partially met targets are shown at reduced intensity
+    const progress =
+      target && quantity && !isCompleted ? Math.min(quantity / target, 1) : 0;
+    const cellTitle = isFrozen
+      ? `${title} (frozen)`
+      : quantity
+      ? `${title}: ${quantity}${target ? ` / ${target}` : ""}`
+      : title;
+    const style = isCompleted
+      ? { backgroundColor: color }
+      : progress > 0
+      ? { backgroundColor: color, opacity: 0.2 + progress * 0.5 }
+      : undefined;
+    const background =
+      isCompleted || progress > 0 ? "" : isFrozen ? "bg-sky-200" : "bg-gray-100";
+
+    if (!onToggle) {
+      return (
+        <div
+          key={identifier}
+          title={cellTitle}
+          className={`w-3 h-3 rounded-sm ${background} ${
+            isScheduled ? "" : "opacity-40"
+          }`}
+          style={style}
+        />
+      );
+    }
+
+    return (
+      <button
+        key={identifier}
+        title={cellTitle}
+        onClick={(e) => {
+          e.stopPropagation();
+          onToggle(identifier, e.currentTarget);
+        }}
+        onContextMenu={(e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          onFreeze?.(identifier);
+        }}
+        className={`w-3 h-3 rounded-sm transition-transform hover:scale-125 ${background} ${
+          background === "bg-gray-100" ? "hover:bg-gray-200" : ""
+        } ${isScheduled ? "" : "opacity-40"}`}
+        style={style}
+      />
+    );
+  };
+
+  // Month labels above the first week that starts in each month
+  const monthLabels = weeks.map((week, i) =>
+    i === 0 ||
+    getMonthIdentifier(week) !== getMonthIdentifier(weeks[i - 1])
+      ? formatMonth(week)
+      : ""
+  );
+
+  if (kind === "month") {
+    const currentMonth = getMonthIdentifier(today);
+    return (
+      <div className="flex gap-2 justify-center">
+        {Array.from({ length: 12 }, (_, i) => {
+          const month = addMonths(currentMonth, i - 11);
+          return (
+            <div key={month} className="flex flex-col items-center gap-1">
+              <span className="text-xs text-gray-500">
+                {formatMonth(`${month}-01`)}
+              </span>
+              {renderCell(month, month, false)}
+            </div>
+          );
+        })}
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="inline-flex gap-1">
+        {kind === "day" && (
+          <div className="flex flex-col gap-1 mr-1 pt-4">
+            {dayLabels.map((label, i) => (
+              <span
+                key={i}
+                className="h-3 text-[10px] leading-3 text-gray-400"
+              >
+                {label}
+              </span>
+            ))}
+          </div>
+        )}
+        {weeks.map((week, i) => (
+          <div key={week} className="flex flex-col gap-1">
+            <span className="w-3 h-3 text-[10px] leading-3 text-gray-400 whitespace-nowrap">
+              {monthLabels[i]}
+            </span>
+            {kind === "week"
+              ? renderCell(week, `Week of ${formatDay(week)}`, week > today)
+              : Array.from({ length: 7 }, (_, day) => {
+                  const date = addDays(week, day);
+                  return renderCell(
+                    date,
+                    formatDay(date),
+                    date > today,
+                    isScheduledDay(schedule, date)
+                  );
+                })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+import { useState } from "react";
+import { normalizeForMerge, parseImportFiles } from "@/lib/importers";
+import type {
+  HabitImport,
+  ImportPreview,
+  ImportedHabit,
+} from "@/lib/importers";
+import { describeSchedule, parseSchedule } from "@/lib/schedule";
+import type { Schedule } from "@/lib/schedule";
+
+interface ImportDialogProps {
+  existingHabits: { id: string; name: string; schedule: Schedule }[];
+  weekStartsOn: number;
+  // Resolves to whether the import went through
+  onImport: (habits: HabitImport[]) => Promise<boolean>;
+  onClose: () => void;
+}
+
+type ImportAction = "import" | "skip" | "merge";
+
+const SOURCE_LABELS = {
+  loop: "Loop",
+  csv: "CSV",
+  backup: "Backup",
+};
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+export default function ImportDialog({
+  existingHabits,
+  weekStartsOn,
+  onImport,
+  onClose,
+}: ImportDialogProps) {
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  // What to do with each previewed habit, by index
+  const [actions, setActions] = useState<ImportAction[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const findDuplicate = (name: string) =>
+    existingHabits.find(
+      (habit) => normalizeName(habit.name) === normalizeName(name)
+    );
+
+  // The habit's check-ins on the periods of the one it would merge into
+  const getMerge = (habit: ImportedHabit) => {
+    const duplicate = findDuplicate(habit.row.name);
+    const merged =
+      duplicate &&
+      normalizeForMerge(habit, duplicate.schedule, weekStartsOn);
+    return duplicate && merged ? { id: duplicate.id, habit: merged } : null;
+  };
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setIsBusy(true);
+    try {
+      const result = await parseImportFiles(Array.from(files), weekStartsOn);
+      setPreview(result);
+      // Duplicates are skipped unless chosen otherwise
+      setActions(
+        result.habits.map((habit) =>
+          findDuplicate(habit.row.name) ? "skip" : "import"
+        )
+      );
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const selected = (preview?.habits ?? []).filter(
+    (_, index) => actions[index] !== "skip"
+  );
+  const checkInCount = selected.reduce(
+    (total, habit) => total + habit.checkIns.length,
+    0
+  );
+
+  const handleImport = async () => {
+    if (!preview) return;
+    const habits: HabitImport[] = [];
+    preview.habits.forEach((habit, index) => {
+      if (actions[index] === "skip") return;
+      const merge = actions[index] === "merge" ? getMerge(habit) : null;
+      habits.push({
+        row: (merge?.habit ?? habit).row,
+        checkIns: (merge?.habit ?? habit).checkIns,
+        mergeInto: merge?.id ?? null,
+      });
+    });
+
+    setIsBusy(true);
+    const isDone = await onImport(habits);
+    setIsBusy(false);
+    if (isDone) onClose();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4 overflow-y-auto"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-2xl p-6 max-w-2xl w-full my-8"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-xl font-bold text-gray-900 mb-2">Import habits</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Choose a Loop Habit Tracker CSV export (the .zip), a CSV with a date
+          column (and optionally habit, value and note columns), or a JSON
+          backup from this app. Nothing is saved until you confirm.
+        </p>
+
+        <input
+          type="file"
+          multiple
+          accept=".zip,.csv,.json,.db"
+          disabled={isBusy}
+          onChange={(e) => handleFiles(e.target.files)}
+          className="block w-full text-sm text-gray-700 mb-4"
+        />
+
+        {preview && preview.warnings.length > 0 && (
+          <ul className="mb-4 rounded-lg bg-amber-50 p-3 text-sm text-amber-800 list-disc list-inside">
+            {preview.warnings.map((warning) => (
+              <li key={warning}>{warning}</li>
+            ))}
+          </ul>
+        )}
+
+        {preview && preview.habits.length === 0 && (
+          <p className="mb-4 text-sm text-gray-500">
+            No habits found in the selected files.
+          </p>
+        )}
+
+        {preview && preview.habits.length > 0 && (
+          <div className="mb-4 max-h-80 overflow-y-auto border border-gray-200 rounded-lg">
+            <table className="w-full text-sm text-left text-gray-700">
+              <thead className="bg-gray-50 text-xs text-gray-500 uppercase">
+                <tr>
+                  <th className="px-3 py-2">Habit</th>
+                  <th className="px-3 py-2">Schedule</th>
+                  <th className="px-3 py-2 text-right">Check-ins</th>
+                  <th className="px-3 py-2">Action</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.habits.map((habit, index) => {
+                  const duplicate = findDuplicate(habit.row.name);
+                  const canMerge = getMerge(habit) !== null;
+                  const periods = habit.checkIns.map((c) => c.period_id);
+                  return (
+                    <tr key={index} className="border-t border-gray-100">
+                      <td className="px-3 py-2">
+                        <div className="font-medium text-gray-900">
+                          {habit.row.name}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {SOURCE_LABELS[habit.source]}
+                          {periods.length > 0 &&
+                            ` · ${periods[0]} to ${periods[periods.length - 1]}`}
+                          {duplicate && " · already exists"}
+                        </div>
+                      </td>
+                      <td className="px-3 py-2">
+                        {describeSchedule(
+                          parseSchedule(habit.row.frequency, habit.row.schedule)
+                        )}
+                        {habit.scheduleNote && (
+                          <div className="text-xs text-amber-700">
+                            {habit.scheduleNote}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        {habit.checkIns.length}
+                      </td>
+                      <td className="px-3 py-2">
+                        <select
+                          value={actions[index]}
+                          onChange={(e) =>
+                            setActions((current) =>
+                              current.map((action, i) =>
+                                i === index
+                                  ? (e.target.value as ImportAction)
+                                  : action
+                              )
+                            )
+                          }
+                          className="px-2 py-1 border border-gray-300 rounded text-gray-900"
+                        >
+                          <option value="import">
+                            {duplicate ? "Import as new" : "Import"}
+                          </option>
+                          {duplicate && (
+                            <option value="merge" disabled={!canMerge}>
+                              {canMerge
+                                ? "Merge into existing"
+                                : "Merge (schedules don't match)"}
+                            </option>
+                          )}
+                          <option value="skip">Skip</option>
+                        </select>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex items-center gap-3 justify-end">
+          {preview && (
+            <span className="mr-auto text-sm text-gray-600">
+              {selected.length} habit{selected.length !== 1 ? "s" : ""},{" "}
+              {checkInCount} check-in{checkInCount !== 1 ? "s" : ""}
+            </span>
+          )}
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={isBusy || selected.length === 0}
+            className="px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+          >
+            {isBusy ? "Working..." : "Import"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { getPeriodKind } from "@/lib/schedule";
+import type { Schedule } from "@/lib/schedule";
+import type { CheckInData } from "@/lib/supabase";
+import { parseDateString } from "@/lib/streak-engine";
+
+interface JournalProps {
+  entries: Record<string, CheckInData>;
+  schedule: Schedule;
+}
+
+const formatPeriod = (identifier: string, schedule: Schedule): string => {
+  const kind = getPeriodKind(schedule);
+  if (kind === "month") {
+    return parseDateString(`${identifier}-01`).toLocaleDateString("en-US", {
+      month: "long",
+      year: "numeric",
+    });
+  }
+  const label = parseDateString(identifier).toLocaleDateString("en-US", {
+    weekday: kind === "day" ? "short" : undefined,
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+  return kind === "week" ? `Week of ${label}` : label;
+};
+
+export default function Journal({ entries, schedule }: JournalProps) {
+  // Newest first
+  const notes = Object.values(entries)
+    .filter((entry) => entry.note)
+    .sort((a, b) => b.period_id.localeCompare(a.period_id));
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200 animate-slideDown">
+      <h4 className="text-sm font-semibold text-gray-700 mb-2">Journal</h4>
+      {notes.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Shift-click a box to attach a note to that check-in.
+        </p>
+      ) : (
+        <ul className="max-h-48 overflow-y-auto space-y-2">
+          {notes.map((entry) => (
+            <li key={entry.period_id} className="text-sm">
+              <div className="flex justify-between text-xs text-gray-500">
+                <span>{formatPeriod(entry.period_id, schedule)}</span>
+                <span>
+                  {new Date(entry.created_at).toLocaleString("en-US", {
+                    month: "short",
+                    day: "numeric",
+                    hour: "numeric",
+                    minute: "2-digit",
+                  })}
+                </span>
+              </div>
+              <p className="text-gray-800">{entry.note}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
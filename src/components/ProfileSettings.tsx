@@ -0,0 +1,244 @@
+import { useState } from "react";
+import { WEEKDAY_NAMES } from "@/lib/schedule";
+import type { ProfileData } from "@/lib/supabase";
+import type { ExportFormat } from "@/lib/data-export";
+
+interface ProfileSettingsProps {
+  profile: ProfileData;
+  onSave: (
+    changes: Pick<ProfileData, "time_zone" | "day_start_hour" | "week_start">
+  ) => void;
+  onExport: (format: ExportFormat) => void;
+  onImport: () => void;
+  onApiTokens: () => void;
+  onWebhooks: () => void;
+  // Turn the calendar feed on with a new link, or off
+  onCalendarFeedChange: (enabled: boolean) => void;
+  onCopyLink: (url: string) => void;
+  onClose: () => void;
+}
+
+// Later rollover hours would move daytime completions to the next day
+const DAY_START_HOURS = Array.from({ length: 12 }, (_, hour) => hour);
+
+// Monday, Sunday or Saturday (0 = Sunday)
+const WEEK_STARTS = [1, 0, 6];
+
+const formatHour = (hour: number) =>
+  hour === 0 ? "Midnight" : `${hour}:00 am`;
+
+const getTimeZones = (current: string): string[] => {
+  const zones =
+    typeof Intl.supportedValuesOf === "function"
+      ? Intl.supportedValuesOf("timeZone")
+      : [];
+  return zones.includes(current) ? zones : [current, ...zones];
+};
+
+export default function ProfileSettings({
+  profile,
+  onSave,
+  onExport,
+  onImport,
+  onApiTokens,
+  onWebhooks,
+  onCalendarFeedChange,
+  onCopyLink,
+  onClose,
+}: ProfileSettingsProps) {
+  const [timeZone, setTimeZone] = useState(profile.time_zone);
+  const [dayStartHour, setDayStartHour] = useState(profile.day_start_hour);
+  const [weekStart, setWeekStart] = useState(profile.week_start ?? 1);
+  const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const calendarFeedUrl =
+    profile.calendar_token &&
+    `${window.location.origin}/api/calendar/${profile.calendar_token}.ics`;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4 overflow-y-auto"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-2xl p-6 max-w-md w-full my-8"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-xl font-bold text-gray-900 mb-4">Settings</h2>
+
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Home timezone
+        </label>
+        <select
+          value={timeZone}
+          onChange={(e) => setTimeZone(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 mb-1"
+        >
+          {getTimeZones(timeZone).map((zone) => (
+            <option key={zone} value={zone}>
+              {zone.replace(/_/g, " ")}
+            </option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-500 mb-4">
+          Days are counted in this timezone wherever you are.
+          {browserTimeZone !== timeZone && (
+            <>
+              {" "}
+              <button
+                onClick={() => setTimeZone(browserTimeZone)}
+                className="text-green-600 hover:underline"
+              >
+                Use {browserTimeZone.replace(/_/g, " ")}
+              </button>
+            </>
+          )}
+        </p>
+
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          My day ends at
+        </label>
+        <select
+          value={dayStartHour}
+          onChange={(e) => setDayStartHour(Number(e.target.value))}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 mb-1"
+        >
+          {DAY_START_HOURS.map((hour) => (
+            <option key={hour} value={hour}>
+              {formatHour(hour)}
+            </option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-500 mb-4">
+          Check-ins before this time count toward the previous day.
+        </p>
+
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Weeks start on
+        </label>
+        <select
+          value={weekStart}
+          onChange={(e) => setWeekStart(Number(e.target.value))}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 mb-1"
+        >
+          {WEEK_STARTS.map((day) => (
+            <option key={day} value={day}>
+              {WEEKDAY_NAMES[day]}
+            </option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-500 mb-4">
+          Weekly habits move to the new weeks, keeping their history.
+        </p>
+
+        <div className="border-t border-gray-200 pt-4 mb-6">
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Your data</h3>
+          <div className="flex flex-wrap gap-2 mb-4">
+            <button
+              onClick={() => onExport("csv")}
+              className="px-3 py-1 text-sm rounded bg-white border border-gray-300 text-gray-700 hover:bg-gray-100"
+            >
+              Export CSV
+            </button>
+            <button
+              onClick={() => onExport("json")}
+              className="px-3 py-1 text-sm rounded bg-white border border-gray-300 text-gray-700 hover:bg-gray-100"
+            >
+              Export JSON backup
+            </button>
+            <button
+              onClick={onImport}
+              className="px-3 py-1 text-sm rounded bg-white border border-gray-300 text-gray-700 hover:bg-gray-100"
+            >
+              Import...
+            </button>
+            <button
+              onClick={onApiTokens}
+              className="px-3 py-1 text-sm rounded bg-white border border-gray-300 text-gray-700 hover:bg-gray-100"
+            >
+              API tokens...
+            </button>
+            <button
+              onClick={onWebhooks}
+              className="px-3 py-1 text-sm rounded bg-white border border-gray-300 text-gray-700 hover:bg-gray-100"
+            >
+              Webhooks...
+            </button>
+          </div>
+
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Calendar feed
+          </label>
+          {calendarFeedUrl ? (
+            <div className="flex items-center gap-2 mb-1 text-sm">
+              <input
+                readOnly
+                value={calendarFeedUrl}
+                onFocus={(e) => e.currentTarget.select()}
+                className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded bg-white text-gray-900"
+              />
+              <button
+                onClick={() => onCopyLink(calendarFeedUrl)}
+                className="px-3 py-1 rounded bg-white border border-gray-300 text-gray-700 hover:bg-gray-100"
+              >
+                Copy
+              </button>
+              <button
+                onClick={() => {
+                  if (
+                    confirm(
+                      "Calendars subscribed to the current link will stop updating. Create a new link?"
+                    )
+                  ) {
+                    onCalendarFeedChange(true);
+                  }
+                }}
+                className="px-3 py-1 rounded text-gray-700 hover:bg-gray-100"
+              >
+                Reset
+              </button>
+              <button
+                onClick={() => onCalendarFeedChange(false)}
+                className="px-3 py-1 rounded text-red-600 hover:bg-red-50"
+              >
+                Turn off
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={() => onCalendarFeedChange(true)}
+              className="px-3 py-1 mb-1 text-sm rounded bg-white border border-gray-300 text-gray-700 hover:bg-gray-100"
+            >
+              Create calendar feed
+            </button>
+          )}
+          <p className="text-xs text-gray-500">
+            Subscribe to the link in your calendar app to see completed
+            habits. Anyone with the link can see them.
+          </p>
+        </div>
+
+        <div className="flex gap-3 justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => {
+              onSave({
+                time_zone: timeZone,
+                day_start_hour: dayStartHour,
+                week_start: weekStart,
+              });
+              onClose();
+            }}
+            className="px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-lg hover:bg-green-700 transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+"use client";
+
+import { useEffect } from "react";
+
+// Registers the service worker that caches the app shell (and shows
+// reminder notifications), so the installed app opens without waiting on
+// the network
+export default function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (!("serviceWorker" in navigator)) return;
+
+    navigator.serviceWorker.register("/sw.js").catch((err) => {
+      console.error("Error registering service worker:", err);
+    });
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,111 @@
+import { getPeriodKind, getStreakUnit } from "@/lib/schedule";
+import type { Schedule } from "@/lib/schedule";
+import {
+  addDays,
+  getStreakStats,
+  parseDateString,
+} from "@/lib/streak-engine";
+import type { CalendarOptions } from "@/lib/streak-engine";
+
+interface StreakStatsProps {
+  completedDates: Set<string>;
+  frozenDates: Set<string>;
+  schedule: Schedule;
+  // Calendar date the habit was created, so older days don't lower the rate
+  createdAt?: string;
+  color?: string;
+  calendarOptions?: CalendarOptions;
+}
+
+const formatPeriod = (
+  identifier: string,
+  kind: "day" | "week" | "month",
+  edge: "start" | "end"
+): string => {
+  if (kind === "month") {
+    return parseDateString(`${identifier}-01`).toLocaleDateString("en-US", {
+      month: "short",
+      year: "numeric",
+    });
+  }
+  // Week identifiers are the first day of the week; show the last day for
+  // the end of a chain
+  const date =
+    kind === "week" && edge === "end" ? addDays(identifier, 6) : identifier;
+  return parseDateString(date).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+};
+
+export default function StreakStats({
+  completedDates,
+  frozenDates,
+  schedule,
+  createdAt,
+  color,
+  calendarOptions,
+}: StreakStatsProps) {
+  const stats = getStreakStats(completedDates, schedule, {
+    ...calendarOptions,
+    since: createdAt,
+    frozenDates,
+  });
+  const unit = getStreakUnit(schedule);
+  const kind = getPeriodKind(schedule);
+  const plural = (count: number) => `${count} ${unit}${count !== 1 ? "s" : ""}`;
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200 animate-slideDown">
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 mb-4">
+        <div className="rounded-lg bg-gray-50 p-3 text-center">
+          <div className="text-xs text-gray-500">Best chain</div>
+          <div className="text-lg font-bold text-gray-900">
+            {plural(stats.longest)}
+          </div>
+        </div>
+        <div className="rounded-lg bg-gray-50 p-3 text-center">
+          <div className="text-xs text-gray-500">Total check-ins</div>
+          <div className="text-lg font-bold text-gray-900">
+            {stats.totalCompletions}
+          </div>
+        </div>
+        {stats.completionRates.map(({ days, rate }) => (
+          <div key={days} className="rounded-lg bg-gray-50 p-3 text-center">
+            <div className="text-xs text-gray-500">Last {days} days</div>
+            <div className="text-lg font-bold" style={{ color }}>
+              {Math.round(rate * 100)}%
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {stats.runs.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold text-gray-700 mb-2">
+            Chain history
+          </h4>
+          <ul className="max-h-48 overflow-y-auto divide-y divide-gray-100">
+            {stats.runs.map((run) => (
+              <li
+                key={run.start}
+                className="flex justify-between py-1 text-sm text-gray-600"
+              >
+                <span>
+                  {formatPeriod(run.start, kind, "start")}
+                  {run.end !== run.start &&
+                    ` – ${formatPeriod(run.end, kind, "end")}`}
+                </span>
+                <span className="font-semibold text-gray-900">
+                  {plural(run.length)}
+                  {run.length === stats.longest && " 🏆"}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import { useEffect, useRef } from "react";
+
+interface UndoToastProps {
+  message: string;
+  // "Undo", or "Redo" after something was undone
+  actionLabel?: string;
+  onAction: () => void;
+  // Called when the toast times out without its action being used
+  onExpire: () => void;
+  duration?: number;
+}
+
+export default function UndoToast({
+  message,
+  actionLabel = "Undo",
+  onAction,
+  onExpire,
+  duration = 5000,
+}: UndoToastProps) {
+  // The timer starts once; give each new toast its own `key`
+  const onExpireRef = useRef(onExpire);
+  useEffect(() => {
+    onExpireRef.current = onExpire;
+  });
+  useEffect(() => {
+    const timer = setTimeout(() => onExpireRef.current(), duration);
+    return () => clearTimeout(timer);
+  }, [duration]);
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 px-4 py-3 rounded-lg bg-gray-900 text-white shadow-lg">
+      <span className="text-sm">{message}</span>
+      <button
+        onClick={onAction}
+        className="text-sm font-semibold text-amber-300 hover:text-amber-200"
+      >
+        {actionLabel}
+      </button>
+    </div>
+  );
+}
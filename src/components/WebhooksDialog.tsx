@@ -0,0 +1,278 @@
+import { useState } from "react";
+import type { WebhookData, WebhookDeliveryData } from "@/lib/supabase";
+import { WEBHOOK_EVENTS } from "@/lib/webhook-events";
+import type { WebhookEventType } from "@/lib/webhook-events";
+
+export type WebhookChanges = Partial<
+  Pick<WebhookData, "url" | "events" | "enabled">
+>;
+
+interface WebhooksDialogProps {
+  // Null while loading
+  webhooks: WebhookData[] | null;
+  // Newest first
+  deliveries: WebhookDeliveryData[];
+  // Resolves to whether the webhook was added
+  onCreate: (webhook: Pick<WebhookData, "url" | "events">) => Promise<boolean>;
+  onUpdate: (id: string, changes: WebhookChanges) => void;
+  onDelete: (id: string) => void;
+  onRefresh: () => void;
+  onCopy: (text: string) => void;
+  onClose: () => void;
+}
+
+const EVENT_TYPES = Object.keys(WEBHOOK_EVENTS) as WebhookEventType[];
+
+const STATUS_STYLES: Record<WebhookDeliveryData["status"], string> = {
+  pending: "text-amber-700",
+  delivered: "text-green-700",
+  failed: "text-red-600",
+};
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+export default function WebhooksDialog({
+  webhooks,
+  deliveries,
+  onCreate,
+  onUpdate,
+  onDelete,
+  onRefresh,
+  onCopy,
+  onClose,
+}: WebhooksDialogProps) {
+  const [url, setUrl] = useState("");
+  const [events, setEvents] = useState<WebhookEventType[]>(EVENT_TYPES);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const urls = new Map(
+    (webhooks ?? []).map((webhook) => [webhook.id, webhook.url])
+  );
+  const canCreate = url.trim() !== "" && events.length > 0 && !isBusy;
+
+  const handleCreate = async () => {
+    setIsBusy(true);
+    const created = await onCreate({ url: url.trim(), events });
+    setIsBusy(false);
+    if (created) {
+      setUrl("");
+      setEvents(EVENT_TYPES);
+    }
+  };
+
+  const toggleEvent = (
+    current: WebhookEventType[],
+    type: WebhookEventType
+  ) =>
+    current.includes(type)
+      ? current.filter((event) => event !== type)
+      : [...current, type];
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4 overflow-y-auto"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-2xl p-6 max-w-2xl w-full my-8"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-xl font-bold text-gray-900 mb-2">Webhooks</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Webhooks POST your check-ins and streak news as JSON to another
+          service, like a team chat or a bot, within a few minutes. Each
+          request is signed: <code>X-Webhook-Signature</code> is{" "}
+          <code>sha256=</code> and the HMAC-SHA256 of{" "}
+          <code>&lt;X-Webhook-Timestamp&gt;.&lt;body&gt;</code>, keyed with the
+          webhook&apos;s secret. Failed deliveries are retried for about 15
+          hours.
+        </p>
+
+        <div className="mb-6 border border-gray-200 rounded-lg p-4">
+          <h3 className="text-sm font-medium text-gray-700 mb-2">
+            New webhook
+          </h3>
+          <input
+            type="url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://example.com/hooks/chain"
+            maxLength={2000}
+            className="w-full px-3 py-2 mb-3 border border-gray-300 rounded-lg text-gray-900"
+          />
+          <div className="grid grid-cols-2 gap-1 mb-3 text-sm text-gray-700">
+            {EVENT_TYPES.map((type) => (
+              <label key={type} className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={events.includes(type)}
+                  onChange={() =>
+                    setEvents((current) => toggleEvent(current, type))
+                  }
+                />
+                {WEBHOOK_EVENTS[type]}
+              </label>
+            ))}
+          </div>
+          <button
+            onClick={handleCreate}
+            disabled={!canCreate}
+            className="px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+          >
+            {isBusy ? "Adding..." : "Add webhook"}
+          </button>
+        </div>
+
+        {webhooks === null ? (
+          <p className="mb-4 text-sm text-gray-500">Loading webhooks...</p>
+        ) : webhooks.length === 0 ? (
+          <p className="mb-4 text-sm text-gray-500">No webhooks yet.</p>
+        ) : (
+          <ul className="mb-6 space-y-2">
+            {webhooks.map((webhook) => (
+              <li
+                key={webhook.id}
+                className="px-4 py-3 rounded-lg border border-gray-200 text-sm"
+              >
+                <div className="flex items-center gap-3 mb-2">
+                  <label className="flex items-center gap-1 text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={webhook.enabled}
+                      onChange={() =>
+                        onUpdate(webhook.id, { enabled: !webhook.enabled })
+                      }
+                    />
+                    On
+                  </label>
+                  <span className="flex-1 min-w-0 font-mono text-gray-900 truncate">
+                    {webhook.url}
+                  </span>
+                  <button
+                    onClick={() => onCopy(webhook.secret)}
+                    className="px-3 py-1 rounded bg-white border border-gray-300 text-gray-700 hover:bg-gray-100"
+                  >
+                    Copy secret
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (
+                        confirm(
+                          `Delete the webhook for ${webhook.url}? Its delivery log goes with it.`
+                        )
+                      ) {
+                        onDelete(webhook.id);
+                      }
+                    }}
+                    className="px-3 py-1 rounded text-red-600 hover:bg-red-50"
+                  >
+                    Delete
+                  </button>
+                </div>
+                <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600">
+                  {EVENT_TYPES.map((type) => (
+                    <label key={type} className="flex items-center gap-1">
+                      <input
+                        type="checkbox"
+                        checked={webhook.events.includes(type)}
+                        // A webhook needs at least one event
+                        disabled={
+                          webhook.events.length === 1 &&
+                          webhook.events[0] === type
+                        }
+                        onChange={() =>
+                          onUpdate(webhook.id, {
+                            events: toggleEvent(webhook.events, type),
+                          })
+                        }
+                      />
+                      {WEBHOOK_EVENTS[type]}
+                    </label>
+                  ))}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {webhooks !== null && webhooks.length > 0 && (
+          <div className="mb-4">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-medium text-gray-700">
+                Recent deliveries
+              </h3>
+              <button
+                onClick={onRefresh}
+                className="text-sm text-gray-600 hover:text-gray-900"
+              >
+                Refresh
+              </button>
+            </div>
+            {deliveries.length === 0 ? (
+              <p className="text-sm text-gray-500">Nothing sent yet.</p>
+            ) : (
+              <div className="max-h-64 overflow-y-auto">
+                <table className="w-full text-xs text-left">
+                  <thead className="text-gray-500">
+                    <tr>
+                      <th className="py-1 pr-2 font-medium">Time</th>
+                      <th className="py-1 pr-2 font-medium">Event</th>
+                      <th className="py-1 pr-2 font-medium">Status</th>
+                      <th className="py-1 font-medium">Response</th>
+                    </tr>
+                  </thead>
+                  <tbody className="text-gray-700">
+                    {deliveries.map((delivery) => (
+                      <tr
+                        key={delivery.id}
+                        className="border-t border-gray-100"
+                        title={urls.get(delivery.webhook_id)}
+                      >
+                        <td className="py-1 pr-2 whitespace-nowrap">
+                          {formatTime(delivery.created_at)}
+                        </td>
+                        <td className="py-1 pr-2">
+                          {WEBHOOK_EVENTS[delivery.event_type] ??
+                            delivery.event_type}
+                        </td>
+                        <td
+                          className={`py-1 pr-2 whitespace-nowrap ${
+                            STATUS_STYLES[delivery.status]
+                          }`}
+                        >
+                          {delivery.status}
+                          {delivery.attempts > 1 &&
+                            ` (${delivery.attempts} tries)`}
+                        </td>
+                        <td className="py-1 truncate max-w-[12rem]">
+                          {delivery.last_error ??
+                            delivery.response_status ??
+                            "-"}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { createClient } from "@supabase/supabase-js";
+import type { SupabaseClient, User } from "@supabase/supabase-js";
+import type { ApiTokenData } from "@/lib/supabase";
+import { authenticateToken, isPersonalToken } from "@/lib/api-tokens";
+import { createAdminClient } from "@/lib/supabase-admin";
+import { createServerSupabaseClient } from "@/lib/supabase-server";
+
+export interface ApiClient {
+  supabase: SupabaseClient;
+  user: Pick<User, "id">;
+  // Set when the request came with a personal API token
+  token: ApiTokenData | null;
+}
+
+const getBearerToken = (request: Request) =>
+  request.headers.get("authorization")?.match(/^Bearer (.+)$/i)?.[1];
+
+// The browser's session cookies, so pages like /api/export can be opened
+// directly. They're SameSite=Lax: other sites can link to a GET but can't
+// send them with anything that makes changes.
+const getCookieClient = async () => {
+  const supabase = await createServerSupabaseClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  return user ? { supabase, user } : null;
+};
+
+// Authenticates API requests that carry the user's Supabase access token
+// (`Authorization: Bearer <token>`), or else their session cookies. The
+// returned client acts as that user, so row level security applies to
+// everything it reads and writes.
+export const getUserClient = async (request: Request) => {
+  const token = getBearerToken(request);
+  if (!token) return getCookieClient();
+  if (isPersonalToken(token)) return null;
+
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      global: { headers: { Authorization: `Bearer ${token}` } },
+      auth: { persistSession: false, autoRefreshToken: false },
+    }
+  );
+  const {
+    data: { user },
+  } = await supabase.auth.getUser(token);
+  return user ? { supabase, user } : null;
+};
+
+// Authenticates the REST API, which also accepts personal API tokens. Token
+// requests get the service role client, so routes must filter by the user
+// and check `hasAccess` themselves.
+export const getApiClient = async (
+  request: Request
+): Promise<ApiClient | null> => {
+  const token = getBearerToken(request);
+  if (!token || !isPersonalToken(token)) {
+    const client = await getUserClient(request);
+    return client ? { ...client, token: null } : null;
+  }
+
+  try {
+    const apiToken = await authenticateToken(token);
+    return apiToken
+      ? {
+          supabase: createAdminClient(),
+          user: { id: apiToken.user_id },
+          token: apiToken,
+        }
+      : null;
+  } catch (err) {
+    console.error("Error checking API token:", err);
+    return null;
+  }
+};
+
+// Whether the caller may read or write a habit, or all of the user's habits
+// when no habit is given. Sessions can do anything.
+export const hasAccess = (
+  client: ApiClient,
+  access: "read" | "write",
+  habitId?: string
+): boolean => {
+  const { token } = client;
+  if (!token) return true;
+  if (access === "write" && token.access !== "write") return false;
+  if (!token.habit_ids) return true;
+  return habitId !== undefined && token.habit_ids.includes(habitId);
+};
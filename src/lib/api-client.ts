@@ -0,0 +1,36 @@
+// Calls this app's own /api routes from the browser as the signed-in user
+
+import { supabase } from "@/lib/supabase";
+
+// The parsed JSON response. Failed requests throw, with the route's error
+// (and its details, when it lists them) as the message. `allowNotFound`
+// treats a 404 as done, for deleting something that's already gone.
+export const requestApi = async (
+  path: string,
+  {
+    method = "GET",
+    body,
+    allowNotFound = false,
+  }: { method?: string; body?: unknown; allowNotFound?: boolean } = {}
+) => {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  const response = await fetch(path, {
+    method,
+    headers: {
+      Authorization: `Bearer ${session?.access_token}`,
+      ...(body !== undefined && { "Content-Type": "application/json" }),
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+  const result = await response.json().catch(() => null);
+  if (!response.ok && !(allowNotFound && response.status === 404)) {
+    throw new Error(
+      result?.details?.join(", ") ??
+        result?.error ??
+        `Request failed (${response.status})`
+    );
+  }
+  return result;
+};
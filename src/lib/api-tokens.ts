@@ -0,0 +1,61 @@
+// Personal API tokens, for scripts and automations that can't hold a browser
+// session. Tokens look like `dbc_<random>` and only their SHA-256 hash is
+// stored. Server-only.
+
+import crypto from "node:crypto";
+import type { ApiTokenData } from "@/lib/supabase";
+import { createAdminClient } from "@/lib/supabase-admin";
+
+export const TOKEN_PREFIX = "dbc_";
+
+// Characters of the token kept in the clear to tell tokens apart
+const VISIBLE_LENGTH = TOKEN_PREFIX.length + 6;
+
+// Last-used times are only written this often per token
+const LAST_USED_INTERVAL_MS = 60 * 1000;
+
+export const TOKEN_COLUMNS =
+  "id, user_id, name, prefix, access, habit_ids, last_used_at, created_at";
+
+export const isPersonalToken = (token: string) =>
+  token.startsWith(TOKEN_PREFIX);
+
+export const hashToken = (token: string) =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+// A new token, with the hash and prefix to store for it
+export const generateToken = () => {
+  const token = `${TOKEN_PREFIX}${crypto.randomBytes(24).toString("base64url")}`;
+  return {
+    token,
+    hash: hashToken(token),
+    prefix: token.slice(0, VISIBLE_LENGTH),
+  };
+};
+
+// The token's settings if it exists, noting that it was used. Tokens are
+// looked up with the service role since the caller has no session.
+export const authenticateToken = async (
+  token: string
+): Promise<ApiTokenData | null> => {
+  const supabase = createAdminClient();
+  const { data, error } = await supabase
+    .from("api_tokens")
+    .select(TOKEN_COLUMNS)
+    .eq("token_hash", hashToken(token))
+    .maybeSingle<ApiTokenData>();
+  if (error) throw error;
+  if (!data) return null;
+
+  const lastUsed = data.last_used_at ? Date.parse(data.last_used_at) : 0;
+  if (Date.now() - lastUsed > LAST_USED_INTERVAL_MS) {
+    const { error: updateError } = await supabase
+      .from("api_tokens")
+      .update({ last_used_at: new Date().toISOString() })
+      .eq("id", data.id);
+    if (updateError) {
+      console.error("Error recording API token use:", updateError);
+    }
+  }
+  return data;
+};
@@ -0,0 +1,24 @@
+import { ImageResponse } from "next/og";
+
+// The chain icon at any size. Maskable icons keep the artwork inside the
+// central 80% safe zone and fill the rest, since launchers crop them to
+// their own shapes.
+export const renderAppIcon = (size: number, maskable = false) =>
+  new ImageResponse(
+    (
+      <div
+        style={{
+          fontSize: size * (maskable ? 0.5 : 0.75),
+          background: maskable ? "#fffbeb" : "white",
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "center",
+        }}
+      >
+        ⛓️
+      </div>
+    ),
+    { width: size, height: size }
+  );
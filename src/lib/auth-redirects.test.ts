@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import {
+  AUTH_ERRORS,
+  getAuthErrorMessage,
+  getLoginPath,
+  getSafeNextPath,
+  toAuthError,
+} from "@/lib/auth-redirects";
+
+describe("getSafeNextPath", () => {
+  it("keeps paths on this site", () => {
+    expect(getSafeNextPath("/s/my-habit")).toBe("/s/my-habit");
+    expect(getSafeNextPath("/?habit=1#today")).toBe("/?habit=1#today");
+  });
+
+  it("falls back to the home page without a path", () => {
+    expect(getSafeNextPath(null)).toBe("/");
+    expect(getSafeNextPath(undefined)).toBe("/");
+    expect(getSafeNextPath("")).toBe("/");
+  });
+
+  it("refuses other origins", () => {
+    expect(getSafeNextPath("https://evil.example/")).toBe("/");
+    expect(getSafeNextPath("javascript:alert(1)")).toBe("/");
+    expect(getSafeNextPath("evil.example")).toBe("/");
+  });
+
+  it("refuses protocol-relative and backslash links", () => {
+    expect(getSafeNextPath("//evil.example")).toBe("/");
+    expect(getSafeNextPath("/\\evil.example")).toBe("/");
+    expect(getSafeNextPath("/\t/evil.example")).toBe("/");
+  });
+
+  it("doesn't send people back to sign-in", () => {
+    expect(getSafeNextPath("/login")).toBe("/");
+    expect(getSafeNextPath("/login?next=/")).toBe("/");
+    expect(getSafeNextPath("/auth/callback?code=abc")).toBe("/");
+  });
+});
+
+describe("getAuthErrorMessage", () => {
+  it("shows the message for a known error", () => {
+    expect(getAuthErrorMessage("expired")).toBe(AUTH_ERRORS.expired);
+    expect(getAuthErrorMessage("denied")).toBe(AUTH_ERRORS.denied);
+  });
+
+  it("shows nothing without an error", () => {
+    expect(getAuthErrorMessage(null)).toBeNull();
+    expect(getAuthErrorMessage("")).toBeNull();
+  });
+
+  it("shows the general message for anything else", () => {
+    expect(getAuthErrorMessage("<b>Call us</b>")).toBe(AUTH_ERRORS.failed);
+    expect(getAuthErrorMessage("__proto__")).toBe(AUTH_ERRORS.failed);
+    expect(getAuthErrorMessage("constructor")).toBe(AUTH_ERRORS.failed);
+    expect(getAuthErrorMessage("toString")).toBe(AUTH_ERRORS.failed);
+  });
+});
+
+describe("toAuthError", () => {
+  it("sorts provider codes into messages", () => {
+    expect(toAuthError("otp_expired")).toBe("expired");
+    expect(toAuthError("bad_code_verifier")).toBe("other_browser");
+    expect(toAuthError("access_denied")).toBe("denied");
+    expect(toAuthError("server_error")).toBe("failed");
+    expect(toAuthError(null)).toBe("failed");
+  });
+});
+
+describe("getLoginPath", () => {
+  it("only adds the parameters it needs", () => {
+    expect(getLoginPath("/")).toBe("/login");
+    expect(getLoginPath("/s/abc", "expired")).toBe(
+      "/login?error=expired&next=%2Fs%2Fabc"
+    );
+  });
+});
@@ -0,0 +1,77 @@
+// Where sign-in sends people, and what it tells them when it fails. Shared by
+// the login page, the auth callback and the proxy.
+
+// Messages for the `error` parameter of /login. Only these are shown, never
+// text from the URL, so nobody can put their own words on the page.
+export const AUTH_ERRORS = {
+  expired:
+    "That sign-in link has expired or was already used. Please sign in again.",
+  other_browser:
+    "Please open the sign-in link in the browser you requested it from, or sign in again.",
+  denied: "Sign-in was cancelled.",
+  failed: "We couldn't sign you in. Please try again.",
+};
+
+export type AuthError = keyof typeof AUTH_ERRORS;
+
+// Only the object's own keys count: "__proto__" or "constructor" from the URL
+// would otherwise find something that isn't a message
+export const getAuthErrorMessage = (error: string | null): string | null => {
+  if (!error) return null;
+  return Object.hasOwn(AUTH_ERRORS, error)
+    ? AUTH_ERRORS[error as AuthError]
+    : AUTH_ERRORS.failed;
+};
+
+// Sorts an error code from Supabase or the sign-in provider into one of the
+// messages above
+export const toAuthError = (code: string | null | undefined): AuthError => {
+  switch (code) {
+    case "otp_expired":
+    case "flow_state_expired":
+      return "expired";
+    case "flow_state_not_found":
+    case "bad_code_verifier":
+      return "other_browser";
+    case "access_denied":
+      return "denied";
+    default:
+      return "failed";
+  }
+};
+
+// The page to go to after signing in, from a `next` parameter. It comes from
+// the URL, so only paths on this site count: other origins, protocol-relative
+// "//host" links and backslash tricks all fall back to "/".
+export const getSafeNextPath = (next: string | null | undefined): string => {
+  if (
+    !next ||
+    !next.startsWith("/") ||
+    next.startsWith("//") ||
+    next.includes("\\")
+  ) {
+    return "/";
+  }
+  try {
+    const base = "http://localhost";
+    const url = new URL(next, base);
+    // Tabs and newlines are dropped while parsing, so check again
+    if (url.origin !== base) return "/";
+    // Sign-in pages would send people round in a loop
+    if (url.pathname === "/login" || url.pathname.startsWith("/auth/")) {
+      return "/";
+    }
+    return `${url.pathname}${url.search}${url.hash}`;
+  } catch {
+    return "/";
+  }
+};
+
+// /login, remembering where to go afterwards and what went wrong, if anything
+export const getLoginPath = (next: string, error?: AuthError): string => {
+  const params = new URLSearchParams();
+  if (error) params.set("error", error);
+  if (next !== "/") params.set("next", next);
+  const query = params.toString();
+  return query ? `/login?${query}` : "/login";
+};
@@ -0,0 +1,101 @@
+// iCalendar (RFC 5545) feed of a user's completed periods, so habits show up
+// in calendar apps: one all-day event per check-in that completes its
+// period, spanning the day, week or month it covers.
+
+import { isCheckInComplete } from "@/lib/supabase";
+import type { ExportData } from "@/lib/data-export";
+import { getPeriodKind, parseSchedule } from "@/lib/schedule";
+import { addDays, addMonths } from "@/lib/streak-engine";
+
+const PRODUCT_ID = "-//Don't Break the Chain//Habit feed//EN";
+
+// Calendar apps refresh subscriptions at most this often
+const REFRESH_INTERVAL = "PT1H";
+
+const escapeText = (text: string) =>
+  text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+// Lines longer than 75 octets continue on the next line after a space,
+// without splitting multi-byte characters
+const foldLine = (line: string): string => {
+  const lines: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const char of line) {
+    const charSize = Buffer.byteLength(char);
+    if (size + charSize > 75) {
+      lines.push(current);
+      current = " ";
+      size = 1;
+    }
+    current += char;
+    size += charSize;
+  }
+  lines.push(current);
+  return lines.join("\r\n");
+};
+
+const toDateValue = (dateString: string) => dateString.replace(/-/g, "");
+
+const toTimestamp = (isoString: string) =>
+  new Date(isoString).toISOString().replace(/[-:]/g, "").replace(/\.\d+/, "");
+
+// First day and the day after the last day of a period. Months are stored
+// as YYYY-MM; weeks under their first day.
+const getPeriodRange = (
+  periodId: string,
+  isWeekly: boolean
+): [string, string] => {
+  if (periodId.length === 7) {
+    return [`${periodId}-01`, `${addMonths(periodId, 1)}-01`];
+  }
+  return [periodId, addDays(periodId, isWeekly ? 7 : 1)];
+};
+
+export const buildCalendarFeed = (data: ExportData): string => {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "X-WR-CALNAME:Don't Break the Chain",
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`,
+  ];
+
+  const streaks = new Map(data.streaks.map((streak) => [streak.id, streak]));
+  for (const checkIn of data.checkIns) {
+    const streak = streaks.get(checkIn.habit_id);
+    if (!streak || !isCheckInComplete(checkIn, streak.target)) continue;
+
+    const [start, end] = getPeriodRange(
+      checkIn.period_id,
+      getPeriodKind(parseSchedule(streak.frequency, streak.schedule)) ===
+        "week"
+    );
+    const amount =
+      streak.target && checkIn.value !== null
+        ? ` (${checkIn.value}${streak.unit ? ` ${streak.unit}` : ""})`
+        : "";
+
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${checkIn.id}@dont-break-the-chain`,
+      `DTSTAMP:${toTimestamp(checkIn.created_at)}`,
+      `DTSTART;VALUE=DATE:${toDateValue(start)}`,
+      `DTEND;VALUE=DATE:${toDateValue(end)}`,
+      `SUMMARY:${escapeText(`✓ ${streak.name}${amount}`)}`,
+      ...(checkIn.note ? [`DESCRIPTION:${escapeText(checkIn.note)}`] : []),
+      "TRANSP:TRANSPARENT",
+      "END:VEVENT"
+    );
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+};
@@ -0,0 +1,165 @@
+// Exports of a user's habits and check-ins: a CSV with one row per habit and
+// period for spreadsheets, and a JSON backup holding every column, which the
+// importer reads back. Server-only; used by /api/export and the calendar feed.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { isCheckInComplete } from "@/lib/supabase";
+import type { CheckInData, ProfileData } from "@/lib/supabase";
+import type { StreakRow } from "@/lib/offline";
+import { describeSchedule, parseSchedule } from "@/lib/schedule";
+
+export interface ExportData {
+  profile: ProfileData | null;
+  streaks: StreakRow[];
+  checkIns: CheckInData[];
+}
+
+export interface BackupFile {
+  app: "dont-break-the-chain";
+  version: 1;
+  exported_at: string;
+  profile: Omit<ProfileData, "user_id" | "calendar_token"> | null;
+  streaks: StreakRow[];
+  check_ins: CheckInData[];
+}
+
+export const EXPORT_FORMATS = ["csv", "json"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// Supabase caps each select, so long histories are read in pages
+const PAGE_SIZE = 1000;
+
+// Everything the user owns, filtered by user so it also works with the
+// service role client
+export const loadExportData = async (
+  supabase: SupabaseClient,
+  userId: string
+): Promise<ExportData> => {
+  const [streaksResult, profileResult] = await Promise.all([
+    supabase
+      .from("streaks")
+      .select("*")
+      .eq("user_id", userId)
+      .order("order", { ascending: true }),
+    supabase
+      .from("profiles")
+      .select("*")
+      .eq("user_id", userId)
+      .maybeSingle(),
+  ]);
+  if (streaksResult.error) throw streaksResult.error;
+  if (profileResult.error) throw profileResult.error;
+
+  const checkIns: CheckInData[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("check_ins")
+      .select("*")
+      .eq("user_id", userId)
+      .order("period_id", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    checkIns.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return {
+    profile: profileResult.data,
+    streaks: streaksResult.data ?? [],
+    checkIns,
+  };
+};
+
+export const toBackupFile = (data: ExportData): BackupFile => {
+  // Account-specific fields don't carry over to another account
+  let profile: BackupFile["profile"] = null;
+  if (data.profile) {
+    const settings: Partial<ProfileData> = { ...data.profile };
+    delete settings.user_id;
+    delete settings.calendar_token;
+    profile = settings as BackupFile["profile"];
+  }
+  return {
+    app: "dont-break-the-chain",
+    version: 1,
+    exported_at: new Date().toISOString(),
+    profile,
+    streaks: data.streaks,
+    check_ins: data.checkIns,
+  };
+};
+
+const CSV_COLUMNS = [
+  "habit",
+  "schedule",
+  "period",
+  "status",
+  "value",
+  "unit",
+  "target",
+  "note",
+  "checked_in_at",
+];
+
+// Quote cells that need it, and defuse text a spreadsheet would run as a
+// formula
+const toCsvCell = (value: string | number | null): string => {
+  if (value === null) return "";
+  let text = String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per habit and period: check-ins (done, or partial when a target
+// wasn't met) and frozen periods
+export const toCsv = (data: ExportData): string => {
+  const rows: (string | number | null)[][] = [];
+
+  for (const streak of data.streaks) {
+    const schedule = describeSchedule(
+      parseSchedule(streak.frequency, streak.schedule)
+    );
+    const checkIns = data.checkIns.filter(
+      (checkIn) => checkIn.habit_id === streak.id
+    );
+    const periods = new Set(checkIns.map((checkIn) => checkIn.period_id));
+
+    const habitRows = [
+      ...checkIns.map((checkIn) => [
+        streak.name,
+        schedule,
+        checkIn.period_id,
+        isCheckInComplete(checkIn, streak.target) ? "done" : "partial",
+        checkIn.value,
+        streak.unit,
+        streak.target,
+        checkIn.note,
+        checkIn.created_at,
+      ]),
+      ...(streak.frozen_dates ?? [])
+        .filter((period) => !periods.has(period))
+        .map((period) => [
+          streak.name,
+          schedule,
+          period,
+          "frozen",
+          null,
+          streak.unit,
+          streak.target,
+          null,
+          null,
+        ]),
+    ];
+    habitRows.sort((a, b) => String(a[2]).localeCompare(String(b[2])));
+    rows.push(...habitRows);
+  }
+
+  return [CSV_COLUMNS, ...rows]
+    .map((row) => row.map(toCsvCell).join(","))
+    .join("\r\n")
+    .concat("\r\n");
+};
@@ -0,0 +1,85 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { CachedData } from "@/lib/offline";
+import type { CheckInData } from "@/lib/supabase";
+import { addDays, getMonthIdentifier, getToday } from "@/lib/streak-engine";
+import type { CalendarOptions } from "@/lib/streak-engine";
+
+// Check-ins are loaded for this many days back (the heatmap's range); older
+// history is fetched per habit when a chain reaches back that far
+export const CHECK_IN_WINDOW_DAYS = 371;
+
+// Supabase caps each select, so check-ins are read in pages
+const PAGE_SIZE = 1000;
+
+// Every page of a check-in query, in a stable order so pages don't overlap
+const fetchCheckInPages = async (
+  query: (from: number, to: number) => PromiseLike<{
+    data: CheckInData[] | null;
+    error: unknown;
+  }>
+): Promise<CheckInData[]> => {
+  const checkIns: CheckInData[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await query(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    checkIns.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return checkIns;
+};
+
+// The user's habits, their check-ins within the window and their profile:
+// what the home page is rendered from on the server and refreshed from in the
+// browser. `calendar` places the window; the profile isn't known before this
+// resolves, so callers pass what they have.
+export const fetchHabitData = async (
+  supabase: SupabaseClient,
+  userId: string,
+  calendar: CalendarOptions
+): Promise<CachedData> => {
+  // Month identifiers (YYYY-MM) sort before their days, so compare by month
+  const windowStart = getMonthIdentifier(
+    addDays(getToday(calendar), -CHECK_IN_WINDOW_DAYS)
+  );
+  const [streaksResult, checkIns, profileResult] = await Promise.all([
+    supabase
+      .from("streaks")
+      .select("*")
+      .eq("user_id", userId)
+      .order("order", { ascending: true }),
+    fetchCheckInPages((from, to) =>
+      supabase
+        .from("check_ins")
+        .select("*")
+        .eq("user_id", userId)
+        .gte("period_id", windowStart)
+        .order("period_id", { ascending: true })
+        .order("id", { ascending: true })
+        .range(from, to)
+    ),
+    supabase.from("profiles").select("*").eq("user_id", userId).maybeSingle(),
+  ]);
+
+  const error = streaksResult.error || profileResult.error;
+  if (error) throw error;
+  return {
+    streaks: streaksResult.data ?? [],
+    checkIns,
+    profile: profileResult.data,
+  };
+};
+
+// All of one habit's check-ins, for history older than the window
+export const fetchHabitCheckIns = (
+  supabase: SupabaseClient,
+  habitId: string
+): Promise<CheckInData[]> =>
+  fetchCheckInPages((from, to) =>
+    supabase
+      .from("check_ins")
+      .select("*")
+      .eq("habit_id", habitId)
+      .order("period_id", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, to)
+  );
@@ -0,0 +1,437 @@
+// Shared pieces of the REST API under /api/habits: request validation, the
+// JSON habits and check-ins are returned as (with streaks computed here, in
+// the owner's calendar), and error responses. Server-only. Queries always
+// filter by user, since personal API tokens use the service role client.
+
+import { NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { isCheckInComplete } from "@/lib/supabase";
+import type { CheckInData, StreakData } from "@/lib/supabase";
+import type { StreakRow } from "@/lib/offline";
+import {
+  getStreakUnit,
+  parseSchedule,
+  serializeSchedule,
+} from "@/lib/schedule";
+import type { Frequency, Schedule } from "@/lib/schedule";
+import {
+  getCurrentStreak,
+  getLongestStreak,
+  getPeriodIdentifier,
+  getToday,
+} from "@/lib/streak-engine";
+import type { CalendarOptions } from "@/lib/streak-engine";
+
+export interface ApiHabit {
+  id: string;
+  name: string;
+  schedule: Schedule;
+  unit: string | null;
+  target: number | null;
+  freeze_allowance: number;
+  frozen_periods: string[];
+  reminder_time: string | null;
+  archived_at: string | null;
+  order: number;
+  created_at: string;
+  updated_at: string;
+  streak: {
+    current: number;
+    longest: number;
+    unit: "day" | "week" | "month";
+    // Period today falls in, and whether it's been completed
+    current_period: string;
+    current_period_done: boolean;
+  };
+}
+
+export interface ApiCheckIn {
+  id: string;
+  period: string;
+  value: number | null;
+  note: string | null;
+  // Whether it completes its period (quantitative habits need the target)
+  complete: boolean;
+  created_at: string;
+}
+
+// Fields a client may set on a habit
+export type HabitValues = Partial<
+  Pick<
+    StreakData,
+    | "name"
+    | "frequency"
+    | "schedule"
+    | "unit"
+    | "target"
+    | "freeze_allowance"
+    | "reminder_time"
+    | "archived_at"
+  >
+>;
+
+export const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const FREQUENCIES: Frequency[] = [
+  "daily",
+  "weekly",
+  "times_per_week",
+  "weekdays",
+  "every_n_days",
+  "monthly",
+];
+
+const MAX_NAME_LENGTH = 200;
+const PAGE_SIZE = 1000;
+
+// Every error has the same shape: { error, details? }
+export const apiError = (status: number, error: string, details?: string[]) =>
+  NextResponse.json(details ? { error, details } : { error }, { status });
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// The request's JSON object body, or null if it's something else. With
+// `allowEmpty`, a missing body reads as an empty object.
+export const readJsonObject = async (
+  request: Request,
+  allowEmpty = false
+): Promise<Record<string, unknown> | null> => {
+  const text = await request.text().catch(() => "");
+  if (!text.trim()) return allowEmpty ? {} : null;
+  try {
+    const body = JSON.parse(text);
+    return isObject(body) ? body : null;
+  } catch {
+    return null;
+  }
+};
+
+const isIntegerBetween = (value: unknown, min: number, max: number) =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+const isValidDate = (value: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+  new Date(`${value}T00:00:00Z`).toISOString().startsWith(value);
+
+// A schedule as the API takes it, { type, ...parameters }, or null (with
+// the reason in `errors`) when it's not a valid one
+export const parseScheduleInput = (
+  value: unknown,
+  errors: string[]
+): Schedule | null => {
+  if (!isObject(value) || !FREQUENCIES.includes(value.type as Frequency)) {
+    errors.push(`schedule.type must be one of: ${FREQUENCIES.join(", ")}`);
+    return null;
+  }
+
+  switch (value.type) {
+    case "times_per_week":
+      if (!isIntegerBetween(value.times, 1, 7)) {
+        errors.push("schedule.times must be a whole number from 1 to 7");
+        return null;
+      }
+      return { type: "times_per_week", times: value.times as number };
+    case "weekdays":
+      if (
+        !Array.isArray(value.days) ||
+        value.days.length === 0 ||
+        !value.days.every((day) => isIntegerBetween(day, 0, 6))
+      ) {
+        errors.push("schedule.days must list weekdays from 0 (Sunday) to 6");
+        return null;
+      }
+      return {
+        type: "weekdays",
+        days: Array.from(new Set<number>(value.days)).sort((a, b) => a - b),
+      };
+    case "every_n_days":
+      if (!isIntegerBetween(value.interval, 1, 365)) {
+        errors.push("schedule.interval must be a whole number from 1 to 365");
+        return null;
+      }
+      return { type: "every_n_days", interval: value.interval as number };
+    default:
+      return { type: value.type } as Schedule;
+  }
+};
+
+// Validate a habit body against the fields clients may set. `name` is
+// required when creating; `archived` (true/false) is only accepted on
+// updates.
+export const parseHabitInput = (
+  body: Record<string, unknown>,
+  isUpdate: boolean
+): { values: HabitValues; errors: string[] } => {
+  const values: HabitValues = {};
+  const errors: string[] = [];
+  const allowed = [
+    "name",
+    "schedule",
+    "unit",
+    "target",
+    "freeze_allowance",
+    "reminder_time",
+    ...(isUpdate ? ["archived"] : []),
+  ];
+
+  for (const key of Object.keys(body)) {
+    if (!allowed.includes(key)) errors.push(`Unknown field: ${key}`);
+  }
+
+  if ("name" in body || !isUpdate) {
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      errors.push(`name must be 1 to ${MAX_NAME_LENGTH} characters`);
+    } else {
+      values.name = name;
+    }
+  }
+  if ("schedule" in body) {
+    const schedule = parseScheduleInput(body.schedule, errors);
+    if (schedule) Object.assign(values, serializeSchedule(schedule));
+  }
+  if ("unit" in body) {
+    if (body.unit === null || typeof body.unit === "string") {
+      values.unit = (body.unit as string | null)?.trim() || null;
+    } else {
+      errors.push("unit must be a string or null");
+    }
+  }
+  if ("target" in body) {
+    if (
+      body.target === null ||
+      (typeof body.target === "number" &&
+        Number.isFinite(body.target) &&
+        body.target > 0)
+    ) {
+      values.target = body.target as number | null;
+    } else {
+      errors.push("target must be a positive number or null");
+    }
+  }
+  if ("freeze_allowance" in body) {
+    if (isIntegerBetween(body.freeze_allowance, 0, 31)) {
+      values.freeze_allowance = body.freeze_allowance as number;
+    } else {
+      errors.push("freeze_allowance must be a whole number from 0 to 31");
+    }
+  }
+  if ("reminder_time" in body) {
+    if (
+      body.reminder_time === null ||
+      (typeof body.reminder_time === "string" &&
+        /^([01]\d|2[0-3]):[0-5]\d$/.test(body.reminder_time))
+    ) {
+      values.reminder_time = body.reminder_time as string | null;
+    } else {
+      errors.push("reminder_time must be HH:MM or null");
+    }
+  }
+  if ("archived" in body) {
+    if (typeof body.archived === "boolean") {
+      values.archived_at = body.archived ? new Date().toISOString() : null;
+    } else {
+      errors.push("archived must be true or false");
+    }
+  }
+
+  return { values, errors };
+};
+
+// Validate a check-in body: an optional amount and note
+export const parseCheckInInput = (
+  body: Record<string, unknown>
+): {
+  values: Partial<Pick<CheckInData, "value" | "note">>;
+  errors: string[];
+} => {
+  const values: Partial<Pick<CheckInData, "value" | "note">> = {};
+  const errors: string[] = [];
+
+  for (const key of Object.keys(body)) {
+    if (key !== "value" && key !== "note") {
+      errors.push(`Unknown field: ${key}`);
+    }
+  }
+  if ("value" in body) {
+    if (
+      body.value === null ||
+      (typeof body.value === "number" &&
+        Number.isFinite(body.value) &&
+        body.value > 0)
+    ) {
+      values.value = body.value as number | null;
+    } else {
+      errors.push("value must be a positive number or null");
+    }
+  }
+  if ("note" in body) {
+    if (body.note === null || typeof body.note === "string") {
+      values.note = (body.note as string | null)?.trim() || null;
+    } else {
+      errors.push("note must be a string or null");
+    }
+  }
+
+  return { values, errors };
+};
+
+// The period a date (YYYY-MM-DD, or YYYY-MM for monthly habits) falls in
+// for a habit, or null if it isn't a valid date
+export const toPeriod = (
+  schedule: Schedule,
+  value: string,
+  calendar: CalendarOptions
+): string | null => {
+  if (/^\d{4}-\d{2}$/.test(value)) {
+    return schedule.type === "monthly" && isValidDate(`${value}-01`)
+      ? value
+      : null;
+  }
+  return isValidDate(value)
+    ? getPeriodIdentifier(schedule, value, calendar.weekStartsOn)
+    : null;
+};
+
+// The user's calendar settings, which decide what "today" is
+export const loadCalendar = async (
+  supabase: SupabaseClient,
+  userId: string
+): Promise<CalendarOptions> => {
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("time_zone, day_start_hour, week_start")
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) throw error;
+  return {
+    timeZone: data?.time_zone ?? "UTC",
+    dayStartHour: data?.day_start_hour,
+    weekStartsOn: data?.week_start,
+  };
+};
+
+export const toApiHabit = (
+  row: StreakRow,
+  checkIns: Pick<CheckInData, "period_id" | "value">[],
+  calendar: CalendarOptions
+): ApiHabit => {
+  const schedule = parseSchedule(row.frequency, row.schedule);
+  const completedDates = new Set(
+    checkIns
+      .filter((checkIn) => isCheckInComplete(checkIn, row.target))
+      .map((checkIn) => checkIn.period_id)
+  );
+  const options = { ...calendar, frozenDates: new Set(row.frozen_dates ?? []) };
+  const currentPeriod = getPeriodIdentifier(
+    schedule,
+    getToday(calendar),
+    calendar.weekStartsOn
+  );
+
+  return {
+    id: row.id,
+    name: row.name,
+    schedule,
+    unit: row.unit,
+    target: row.target,
+    freeze_allowance: row.freeze_allowance,
+    frozen_periods: row.frozen_dates ?? [],
+    reminder_time: row.reminder_time?.slice(0, 5) ?? null,
+    archived_at: row.archived_at,
+    order: row.order,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    streak: {
+      current: getCurrentStreak(completedDates, schedule, options),
+      longest: getLongestStreak(completedDates, schedule, options),
+      unit: getStreakUnit(schedule),
+      current_period: currentPeriod,
+      current_period_done: completedDates.has(currentPeriod),
+    },
+  };
+};
+
+export const toApiCheckIn = (
+  checkIn: CheckInData,
+  target: number | null
+): ApiCheckIn => ({
+  id: checkIn.id,
+  period: checkIn.period_id,
+  value: checkIn.value,
+  note: checkIn.note,
+  complete: isCheckInComplete(checkIn, target),
+  created_at: checkIn.created_at,
+});
+
+// One of the user's habits with their calendar, for routes that work on its
+// check-ins
+export const loadHabitRow = async (
+  supabase: SupabaseClient,
+  userId: string,
+  id: string
+): Promise<{ row: StreakRow; calendar: CalendarOptions } | null> => {
+  const [habitResult, calendar] = await Promise.all([
+    supabase
+      .from("streaks")
+      .select("*")
+      .eq("id", id)
+      .eq("user_id", userId)
+      .maybeSingle(),
+    loadCalendar(supabase, userId),
+  ]);
+  if (habitResult.error) throw habitResult.error;
+  return habitResult.data ? { row: habitResult.data, calendar } : null;
+};
+
+// The user's habits (or one of them, or only those in `ids`) with their
+// streaks. Streaks need the whole history, so check-ins are read in pages.
+export const loadApiHabits = async (
+  supabase: SupabaseClient,
+  userId: string,
+  filter: { id?: string; ids?: string[]; includeArchived?: boolean } = {}
+): Promise<ApiHabit[]> => {
+  let query = supabase
+    .from("streaks")
+    .select("*")
+    .eq("user_id", userId)
+    .order("order", { ascending: true });
+  if (filter.id) query = query.eq("id", filter.id);
+  if (filter.ids) query = query.in("id", filter.ids);
+  if (!filter.includeArchived && !filter.id) {
+    query = query.is("archived_at", null);
+  }
+
+  const [habitsResult, calendar] = await Promise.all([
+    query,
+    loadCalendar(supabase, userId),
+  ]);
+  if (habitsResult.error) throw habitsResult.error;
+  const rows: StreakRow[] = habitsResult.data ?? [];
+  if (rows.length === 0) return [];
+
+  const checkIns = new Map<string, Pick<CheckInData, "period_id" | "value">[]>(
+    rows.map((row) => [row.id, []])
+  );
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let checkInQuery = supabase
+      .from("check_ins")
+      .select("habit_id, period_id, value")
+      .eq("user_id", userId);
+    if (filter.id) checkInQuery = checkInQuery.eq("habit_id", filter.id);
+    const { data, error } = await checkInQuery
+      .order("id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    for (const checkIn of data ?? []) {
+      checkIns.get(checkIn.habit_id)?.push(checkIn);
+    }
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return rows.map((row) =>
+    toApiHabit(row, checkIns.get(row.id) ?? [], calendar)
+  );
+};
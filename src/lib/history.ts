@@ -0,0 +1,52 @@
+// In-session undo/redo stacks. Commands are plain data describing a change;
+// the page knows how to apply them in either direction.
+
+export interface CommandHistory<T> {
+  past: T[];
+  future: T[];
+}
+
+// Older commands fall off the bottom of the stack
+const MAX_HISTORY = 100;
+
+export const createHistory = <T>(): CommandHistory<T> => ({
+  past: [],
+  future: [],
+});
+
+// A new command makes anything that was undone unreachable
+export const recordCommand = <T>(
+  history: CommandHistory<T>,
+  command: T
+): CommandHistory<T> => ({
+  past: [...history.past, command].slice(-MAX_HISTORY),
+  future: [],
+});
+
+export const undoCommand = <T>(
+  history: CommandHistory<T>
+): { command: T; history: CommandHistory<T> } | null => {
+  const command = history.past[history.past.length - 1];
+  if (command === undefined) return null;
+  return {
+    command,
+    history: {
+      past: history.past.slice(0, -1),
+      future: [...history.future, command],
+    },
+  };
+};
+
+export const redoCommand = <T>(
+  history: CommandHistory<T>
+): { command: T; history: CommandHistory<T> } | null => {
+  const command = history.future[history.future.length - 1];
+  if (command === undefined) return null;
+  return {
+    command,
+    history: {
+      past: [...history.past, command],
+      future: history.future.slice(0, -1),
+    },
+  };
+};
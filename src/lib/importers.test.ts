@@ -0,0 +1,200 @@
+import { describe, expect, it } from "vitest";
+import {
+  mapLoopFrequency,
+  normalizeForMerge,
+  normalizePeriods,
+  parseCsv,
+  parseScheduleText,
+} from "@/lib/importers";
+import type { ImportedHabit } from "@/lib/importers";
+import { serializeSchedule } from "@/lib/schedule";
+import type { Schedule } from "@/lib/schedule";
+
+const habitWith = (
+  schedule: Schedule,
+  periods: string[],
+  frozenDates: string[] = []
+): ImportedHabit => ({
+  row: {
+    name: "Read",
+    ...serializeSchedule(schedule),
+    unit: null,
+    target: null,
+    frozen_dates: frozenDates,
+    freeze_allowance: 2,
+  },
+  checkIns: periods.map((period_id) => ({
+    period_id,
+    value: null,
+    note: null,
+  })),
+  source: "csv",
+  scheduleNote: null,
+});
+
+const periodsOf = (habit: ImportedHabit | null) =>
+  habit?.checkIns.map((checkIn) => checkIn.period_id);
+
+describe("parseCsv", () => {
+  it("splits rows and fields", () => {
+    expect(parseCsv("date,habit\n2026-03-01,Read\r\n2026-03-02,Run")).toEqual(
+      [
+        ["date", "habit"],
+        ["2026-03-01", "Read"],
+        ["2026-03-02", "Run"],
+      ]
+    );
+  });
+
+  it("keeps commas, quotes and newlines inside quoted fields", () => {
+    expect(parseCsv('note\n"one, two"\n"say ""hi"""\n"a\nb"')).toEqual([
+      ["note"],
+      ["one, two"],
+      ['say "hi"'],
+      ["a\nb"],
+    ]);
+  });
+
+  it("drops a byte order mark and blank lines", () => {
+    expect(parseCsv("\uFEFFdate\n\n2026-03-01\n,\n")).toEqual([
+      ["date"],
+      ["2026-03-01"],
+    ]);
+  });
+});
+
+describe("parseScheduleText", () => {
+  it("reads this app's descriptions", () => {
+    expect(parseScheduleText("Daily")).toEqual({ type: "daily" });
+    expect(parseScheduleText("Weekly")).toEqual({ type: "weekly" });
+    expect(parseScheduleText("Monthly")).toEqual({ type: "monthly" });
+    expect(parseScheduleText("3x per week")).toEqual({
+      type: "times_per_week",
+      times: 3,
+    });
+    expect(parseScheduleText("Every 2 days")).toEqual({
+      type: "every_n_days",
+      interval: 2,
+    });
+    expect(parseScheduleText("Mon, Wed, Fri")).toEqual({
+      type: "weekdays",
+      days: [1, 3, 5],
+    });
+  });
+
+  it("reads common spellings", () => {
+    expect(parseScheduleText("every day")).toEqual({ type: "daily" });
+    expect(parseScheduleText("once a month")).toEqual({ type: "monthly" });
+    expect(parseScheduleText("2 times a week")).toEqual({
+      type: "times_per_week",
+      times: 2,
+    });
+    expect(parseScheduleText("monday tuesday")).toEqual({
+      type: "weekdays",
+      days: [1, 2],
+    });
+  });
+
+  it("returns null for anything else", () => {
+    expect(parseScheduleText("")).toBeNull();
+    expect(parseScheduleText("fortnightly")).toBeNull();
+    expect(parseScheduleText("Mon, someday")).toBeNull();
+  });
+});
+
+describe("mapLoopFrequency", () => {
+  it("maps Loop's exact cadences", () => {
+    expect(mapLoopFrequency(1, 1).schedule).toEqual({ type: "daily" });
+    expect(mapLoopFrequency(1, 7).schedule).toEqual({ type: "weekly" });
+    expect(mapLoopFrequency(3, 7).schedule).toEqual({
+      type: "times_per_week",
+      times: 3,
+    });
+    expect(mapLoopFrequency(1, 30).schedule).toEqual({ type: "monthly" });
+    expect(mapLoopFrequency(1, 3).schedule).toEqual({
+      type: "every_n_days",
+      interval: 3,
+    });
+  });
+
+  it("rounds other cadences to a weekly rate, with a note", () => {
+    const { schedule, note } = mapLoopFrequency(2, 10);
+    expect(schedule).toEqual({ type: "times_per_week", times: 1 });
+    expect(note).toBe("2 times in 10 days mapped to 1x per week");
+    expect(mapLoopFrequency(5, 6).schedule).toEqual({
+      type: "times_per_week",
+      times: 6,
+    });
+  });
+});
+
+describe("normalizePeriods", () => {
+  it("keeps days for day-based habits", () => {
+    const habit = habitWith({ type: "daily" }, ["2026-03-02", "2026-03-01"]);
+    expect(periodsOf(normalizePeriods(habit, 1))).toEqual([
+      "2026-03-01",
+      "2026-03-02",
+    ]);
+  });
+
+  it("moves days onto week starts, merging amounts and notes", () => {
+    const habit = habitWith({ type: "weekly" }, []);
+    habit.checkIns = [
+      { period_id: "2026-03-03", value: 2, note: "a" },
+      { period_id: "2026-03-05", value: 3, note: "b" },
+      { period_id: "2026-03-09", value: null, note: null },
+    ];
+    expect(normalizePeriods(habit, 1).checkIns).toEqual([
+      { period_id: "2026-03-02", value: 5, note: "a\nb" },
+      { period_id: "2026-03-09", value: null, note: null },
+    ]);
+    expect(periodsOf(normalizePeriods(habit, 0))).toEqual([
+      "2026-03-01",
+      "2026-03-08",
+    ]);
+  });
+
+  it("moves days onto months", () => {
+    const habit = habitWith({ type: "monthly" }, ["2026-02-27", "2026-03-04"]);
+    expect(periodsOf(normalizePeriods(habit, 1))).toEqual([
+      "2026-02",
+      "2026-03",
+    ]);
+  });
+
+  it("drops months from habits that aren't monthly", () => {
+    const habit = habitWith({ type: "daily" }, ["2026-03", "2026-03-04"]);
+    expect(periodsOf(normalizePeriods(habit, 1))).toEqual(["2026-03-04"]);
+  });
+
+  it("doesn't freeze periods that have a check-in", () => {
+    const habit = habitWith(
+      { type: "weekly" },
+      ["2026-03-03"],
+      ["2026-03-04", "2026-03-10"]
+    );
+    expect(normalizePeriods(habit, 1).row.frozen_dates).toEqual([
+      "2026-03-09",
+    ]);
+  });
+});
+
+describe("normalizeForMerge", () => {
+  it("regroups days into the existing habit's periods", () => {
+    const habit = habitWith({ type: "daily" }, ["2026-03-03", "2026-03-05"]);
+    const merged = normalizeForMerge(habit, { type: "weekly" }, 1);
+    expect(periodsOf(merged)).toEqual(["2026-03-02"]);
+    expect(merged?.row.frequency).toBe("weekly");
+    expect(
+      periodsOf(normalizeForMerge(habit, { type: "monthly" }, 1))
+    ).toEqual(["2026-03"]);
+  });
+
+  it("refuses weeks or months for a habit stored differently", () => {
+    const weekly = habitWith({ type: "weekly" }, ["2026-03-02"]);
+    expect(normalizeForMerge(weekly, { type: "daily" }, 1)).toBeNull();
+    expect(normalizeForMerge(weekly, { type: "weekly" }, 1)).not.toBeNull();
+    const monthly = habitWith({ type: "monthly" }, ["2026-03"]);
+    expect(normalizeForMerge(monthly, { type: "weekly" }, 1)).toBeNull();
+  });
+});
@@ -0,0 +1,578 @@
+// Imports history from other habit trackers and from this app's own exports.
+// Files are parsed in the browser into habit rows and check-ins, which the
+// import dialog previews before anything is written. Supported sources:
+//
+//   - Loop Habit Tracker's "Export as CSV" zip (or its Habits.csv and
+//     Checkmarks.csv extracted from it)
+//   - date-list CSVs with a date column and optional habit, value and note
+//     columns, which covers this app's CSV export and most other trackers
+//   - this app's JSON backup
+
+import type { BackupFile } from "@/lib/data-export";
+import type { StreakData } from "@/lib/supabase";
+import {
+  WEEKDAY_NAMES,
+  getPeriodKind,
+  parseSchedule,
+  serializeSchedule,
+} from "@/lib/schedule";
+import type { Schedule } from "@/lib/schedule";
+import { getPeriodIdentifier } from "@/lib/streak-engine";
+
+export type ImportSource = "loop" | "csv" | "backup";
+
+export interface ImportedCheckIn {
+  period_id: string;
+  value: number | null;
+  note: string | null;
+}
+
+export interface ImportedHabit {
+  row: Pick<
+    StreakData,
+    | "name"
+    | "frequency"
+    | "schedule"
+    | "unit"
+    | "target"
+    | "frozen_dates"
+    | "freeze_allowance"
+  >;
+  checkIns: ImportedCheckIn[];
+  source: ImportSource;
+  // How the source's cadence was mapped, when it wasn't an exact match
+  scheduleNote: string | null;
+}
+
+// A previewed habit as sent to /api/import: created, or with `mergeInto`
+// added to an existing habit of the same name
+export interface HabitImport extends Pick<ImportedHabit, "row" | "checkIns"> {
+  mergeInto: string | null;
+}
+
+export interface ImportPreview {
+  habits: ImportedHabit[];
+  // Files or rows that couldn't be read
+  warnings: string[];
+}
+
+const DEFAULT_FREEZE_ALLOWANCE = 2;
+
+const LOOP_YES_MANUAL = "2";
+const LOOP_SKIP = "3";
+
+const DATE_COLUMNS = ["date", "period", "day", "entry_date", "timestamp"];
+const HABIT_COLUMNS = ["habit", "name", "habit name", "task name", "title"];
+const VALUE_COLUMNS = ["value", "amount", "quantity", "count"];
+const NOTE_COLUMNS = ["note", "notes", "comment"];
+const STATUS_COLUMNS = ["status", "entry_type", "type"];
+const SCHEDULE_COLUMNS = ["schedule", "frequency"];
+const UNIT_COLUMNS = ["unit"];
+const TARGET_COLUMNS = ["target"];
+
+// Parse RFC 4180 CSV: quoted fields may contain commas, quotes and newlines
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let isQuoted = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (isQuoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        isQuoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      isQuoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+};
+
+// Read the CSV files out of a zip archive, using the browser's own inflate
+const readZipCsvFiles = async (file: Blob): Promise<Map<string, string>> => {
+  const buffer = await file.arrayBuffer();
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+
+  // The end of central directory record sits at the end, after any comment
+  let end = buffer.byteLength - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) end--;
+  if (end < 0) throw new Error("not a zip archive");
+
+  const entries = new Map<string, string>();
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) break;
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(
+      new Uint8Array(buffer, offset + 46, nameLength)
+    );
+    offset += 46 + nameLength + extraLength + commentLength;
+    if (!name.toLowerCase().endsWith(".csv")) continue;
+
+    const dataStart =
+      localOffset +
+      30 +
+      view.getUint16(localOffset + 26, true) +
+      view.getUint16(localOffset + 28, true);
+    const data = new Uint8Array(buffer, dataStart, compressedSize);
+    if (method === 0) {
+      entries.set(name, decoder.decode(data));
+    } else if (method === 8) {
+      const stream = new Blob([data])
+        .stream()
+        .pipeThrough(new DecompressionStream("deflate-raw"));
+      entries.set(name, await new Response(stream).text());
+    }
+  }
+  return entries;
+};
+
+// YYYY-MM-DD from the date formats trackers export: ISO dates and
+// timestamps, YYYY/MM/DD and YYYYMMDD. Month identifiers (YYYY-MM) pass
+// through for monthly habits.
+const parseDate = (value: string): string | null => {
+  const text = value.trim();
+  const match =
+    text.match(/^(\d{4})-(\d{2})-(\d{2})/) ??
+    text.match(/^(\d{4})\/(\d{2})\/(\d{2})/) ??
+    text.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (match) {
+    const date = `${match[1]}-${match[2]}-${match[3]}`;
+    return Number.isNaN(Date.parse(date)) ? null : date;
+  }
+  return /^\d{4}-(0[1-9]|1[0-2])$/.test(text) ? text : null;
+};
+
+const parseNumber = (value: string | undefined): number | null => {
+  if (!value?.trim()) return null;
+  const number = Number(value.trim());
+  return Number.isFinite(number) ? number : null;
+};
+
+// Schedules from their text form: this app's own descriptions ("3x per
+// week", "Mon, Wed, Fri", "Every 2 days") and common spellings of them
+export const parseScheduleText = (text: string): Schedule | null => {
+  const value = text.trim().toLowerCase();
+  if (!value) return null;
+  if (/^(daily|every ?day)$/.test(value)) return { type: "daily" };
+  if (/^(weekly|every week|once a week)$/.test(value)) {
+    return { type: "weekly" };
+  }
+  if (/^(monthly|every month|once a month)$/.test(value)) {
+    return { type: "monthly" };
+  }
+  const times = value.match(/^(\d)\s*(x|times)\s*(per|a) week$/);
+  if (times) return parseSchedule("times_per_week", { times: +times[1] });
+  const interval = value.match(/^every (\d+) days$/);
+  if (interval) {
+    return parseSchedule("every_n_days", { interval: +interval[1] });
+  }
+  const days = value
+    .split(/[\s,]+/)
+    .map((day) =>
+      WEEKDAY_NAMES.findIndex((name) => name.toLowerCase() === day.slice(0, 3))
+    );
+  if (days.length > 0 && days.every((day) => day >= 0)) {
+    return parseSchedule("weekdays", { days });
+  }
+  return null;
+};
+
+// Loop stores a frequency as "numerator times every denominator days"
+export const mapLoopFrequency = (
+  numerator: number,
+  denominator: number
+): { schedule: Schedule; note: string | null } => {
+  if (numerator >= denominator) {
+    return { schedule: { type: "daily" }, note: null };
+  }
+  if (denominator === 7) {
+    return numerator === 1
+      ? { schedule: { type: "weekly" }, note: null }
+      : {
+          schedule: parseSchedule("times_per_week", { times: numerator }),
+          note: null,
+        };
+  }
+  if (numerator === 1 && denominator >= 28 && denominator <= 31) {
+    return { schedule: { type: "monthly" }, note: null };
+  }
+  if (numerator === 1) {
+    return {
+      schedule: parseSchedule("every_n_days", { interval: denominator }),
+      note: null,
+    };
+  }
+  // Anything else becomes its closest weekly rate
+  const times = Math.min(
+    Math.max(Math.round((numerator * 7) / denominator), 1),
+    7
+  );
+  return {
+    schedule: parseSchedule("times_per_week", { times }),
+    note: `${numerator} times in ${denominator} days mapped to ${times}x per week`,
+  };
+};
+
+const findColumn = (header: string[], names: string[]) =>
+  header.findIndex((column) => names.includes(column.trim().toLowerCase()));
+
+const createHabit = (
+  name: string,
+  schedule: Schedule,
+  source: ImportSource,
+  extra: Partial<ImportedHabit["row"]> = {},
+  scheduleNote: string | null = null
+): ImportedHabit => ({
+  row: {
+    name,
+    ...serializeSchedule(schedule),
+    unit: null,
+    target: null,
+    frozen_dates: [],
+    freeze_allowance: DEFAULT_FREEZE_ALLOWANCE,
+    ...extra,
+  },
+  checkIns: [],
+  source,
+  scheduleNote,
+});
+
+const parseLoopExport = (
+  habitsCsv: string,
+  checkmarksCsv: string
+): ImportedHabit[] => {
+  const [habitsHeader, ...habitRows] = parseCsv(habitsCsv);
+  const column = (names: string[]) => findColumn(habitsHeader, names);
+  const nameColumn = column(["name"]);
+  const numeratorColumn = column(["frequencynumerator", "numrepetitions"]);
+  const denominatorColumn = column(["frequencydenominator", "interval"]);
+  const typeColumn = column(["type"]);
+  const unitColumn = column(["unit"]);
+  const targetColumn = column(["target value", "targetvalue"]);
+
+  const habits = new Map<
+    string,
+    { habit: ImportedHabit; isNumerical: boolean }
+  >();
+  for (const row of habitRows) {
+    const name = row[nameColumn]?.trim();
+    if (!name) continue;
+    const { schedule, note } = mapLoopFrequency(
+      parseNumber(row[numeratorColumn]) ?? 1,
+      parseNumber(row[denominatorColumn]) ?? 1
+    );
+    const isNumerical = /^(1|numerical)$/i.test(row[typeColumn] ?? "");
+    const target = isNumerical ? parseNumber(row[targetColumn]) : null;
+    habits.set(name, {
+      habit: createHabit(
+        name,
+        schedule,
+        "loop",
+        {
+          unit: isNumerical ? row[unitColumn]?.trim() || null : null,
+          target: target && target > 0 ? target : null,
+        },
+        note
+      ),
+      isNumerical,
+    });
+  }
+
+  // One column per habit, one row per day
+  const [checkmarksHeader, ...days] = parseCsv(checkmarksCsv);
+  checkmarksHeader.forEach((name, index) => {
+    const entry = habits.get(name.trim());
+    if (index === 0 || !entry) return;
+    const { habit, isNumerical } = entry;
+    for (const day of days) {
+      const date = parseDate(day[0] ?? "");
+      const value = day[index]?.trim() ?? "";
+      if (!date) continue;
+      if (value === LOOP_SKIP && !isNumerical) {
+        habit.row.frozen_dates.push(date);
+      } else if (isNumerical) {
+        // Amounts are stored in thousandths unless written as decimals
+        const amount = parseNumber(value);
+        if (amount && amount > 0) {
+          habit.checkIns.push({
+            period_id: date,
+            value: value.includes(".") ? amount : amount / 1000,
+            note: null,
+          });
+        }
+      } else if (value === LOOP_YES_MANUAL) {
+        habit.checkIns.push({ period_id: date, value: null, note: null });
+      }
+    }
+  });
+
+  return Array.from(habits.values()).map((entry) => entry.habit);
+};
+
+// Date-list CSV: a row per completion, with the habit in a column or named
+// after the file
+const parseDateListCsv = (
+  text: string,
+  fileName: string,
+  warnings: string[]
+): ImportedHabit[] => {
+  const [header, ...rows] = parseCsv(text);
+  const dateColumn = findColumn(header ?? [], DATE_COLUMNS);
+  if (dateColumn < 0) {
+    warnings.push(`${fileName}: no date column found`);
+    return [];
+  }
+  const habitColumn = findColumn(header, HABIT_COLUMNS);
+  const valueColumn = findColumn(header, VALUE_COLUMNS);
+  const noteColumn = findColumn(header, NOTE_COLUMNS);
+  const statusColumn = findColumn(header, STATUS_COLUMNS);
+  const scheduleColumn = findColumn(header, SCHEDULE_COLUMNS);
+  const unitColumn = findColumn(header, UNIT_COLUMNS);
+  const targetColumn = findColumn(header, TARGET_COLUMNS);
+  const defaultName = fileName.replace(/\.[^.]+$/, "");
+
+  const habits = new Map<string, ImportedHabit>();
+  let skipped = 0;
+  for (const row of rows) {
+    const date = parseDate(row[dateColumn] ?? "");
+    if (!date) {
+      skipped++;
+      continue;
+    }
+    const name = (habitColumn >= 0 && row[habitColumn]?.trim()) || defaultName;
+    // This app's CSV export defuses formulas with a leading quote
+    const habitName = name.replace(/^'(?=[=+\-@])/, "");
+
+    let habit = habits.get(habitName);
+    if (!habit) {
+      const scheduleText = scheduleColumn >= 0 ? row[scheduleColumn] : "";
+      const schedule = parseScheduleText(scheduleText ?? "");
+      const target = parseNumber(row[targetColumn]);
+      habit = createHabit(
+        habitName,
+        schedule ?? { type: "daily" },
+        "csv",
+        {
+          unit: row[unitColumn]?.trim() || null,
+          target: target && target > 0 ? target : null,
+        },
+        scheduleText && !schedule
+          ? `Unknown schedule "${scheduleText}" imported as daily`
+          : null
+      );
+      habits.set(habitName, habit);
+    }
+
+    const status = statusColumn >= 0 ? row[statusColumn]?.toLowerCase() : "";
+    if (status && /frozen|skip/.test(status)) {
+      habit.row.frozen_dates.push(date);
+    } else if (!status || !/miss|fail|not/.test(status)) {
+      habit.checkIns.push({
+        period_id: date,
+        value: parseNumber(row[valueColumn]),
+        note: row[noteColumn]?.trim() || null,
+      });
+    }
+  }
+
+  if (skipped > 0) {
+    warnings.push(
+      `${fileName}: skipped ${skipped} row${
+        skipped !== 1 ? "s" : ""
+      } without a valid date`
+    );
+  }
+  return Array.from(habits.values());
+};
+
+const parseBackup = (backup: BackupFile): ImportedHabit[] =>
+  backup.streaks.map((streak) => ({
+    row: {
+      name: streak.name,
+      frequency: streak.frequency,
+      schedule: streak.schedule,
+      unit: streak.unit,
+      target: streak.target,
+      frozen_dates: streak.frozen_dates ?? [],
+      freeze_allowance: streak.freeze_allowance ?? DEFAULT_FREEZE_ALLOWANCE,
+    },
+    checkIns: backup.check_ins
+      .filter((checkIn) => checkIn.habit_id === streak.id)
+      .map(({ period_id, value, note }) => ({ period_id, value, note })),
+    source: "backup",
+    scheduleNote: null,
+  }));
+
+// Move dates onto the periods the habit is stored in (weeks under the
+// user's week start, months as YYYY-MM), merging check-ins that land in
+// the same period
+export const normalizePeriods = (
+  habit: ImportedHabit,
+  weekStartsOn: number
+): ImportedHabit => {
+  const schedule = parseSchedule(habit.row.frequency, habit.row.schedule);
+  const toPeriod = (date: string) =>
+    getPeriodKind(schedule) === "month" || date.length === 10
+      ? getPeriodIdentifier(schedule, date, weekStartsOn)
+      : null;
+
+  const checkIns = new Map<string, ImportedCheckIn>();
+  for (const checkIn of habit.checkIns) {
+    const period = toPeriod(checkIn.period_id);
+    if (!period) continue;
+    const existing = checkIns.get(period);
+    checkIns.set(
+      period,
+      existing
+        ? {
+            period_id: period,
+            value:
+              existing.value !== null || checkIn.value !== null
+                ? (existing.value ?? 0) + (checkIn.value ?? 0)
+                : null,
+            note:
+              [existing.note, checkIn.note].filter(Boolean).join("\n") || null,
+          }
+        : { ...checkIn, period_id: period }
+    );
+  }
+
+  const frozenDates = new Set(
+    habit.row.frozen_dates
+      .map(toPeriod)
+      .filter((period): period is string => !!period && !checkIns.has(period))
+  );
+
+  return {
+    ...habit,
+    row: { ...habit.row, frozen_dates: Array.from(frozenDates).sort() },
+    checkIns: Array.from(checkIns.values()).sort((a, b) =>
+      a.period_id.localeCompare(b.period_id)
+    ),
+  };
+};
+
+// An imported habit moved onto the periods of the existing habit it's merged
+// into. Days regroup into any habit's weeks or months, but weeks and months
+// only fit a habit stored the same way: null when they don't.
+export const normalizeForMerge = (
+  habit: ImportedHabit,
+  target: Schedule,
+  weekStartsOn: number
+): ImportedHabit | null => {
+  const kind = getPeriodKind(
+    parseSchedule(habit.row.frequency, habit.row.schedule)
+  );
+  if (kind !== "day" && kind !== getPeriodKind(target)) return null;
+  return normalizePeriods(
+    { ...habit, row: { ...habit.row, ...serializeSchedule(target) } },
+    weekStartsOn
+  );
+};
+
+const isLoopHabits = (name: string) => /(^|\/)Habits\.csv$/i.test(name);
+// Loop's combined checkmarks file sits at the top level; each habit's
+// folder has its own copy
+const isLoopCheckmarks = (name: string) => /^Checkmarks\.csv$/i.test(name);
+
+export const parseImportFiles = async (
+  files: File[],
+  weekStartsOn = 1
+): Promise<ImportPreview> => {
+  const warnings: string[] = [];
+  const habits: ImportedHabit[] = [];
+  // CSVs from selected files and zips, by name
+  const csvFiles = new Map<string, string>();
+
+  for (const file of files) {
+    const name = file.name;
+    try {
+      if (/\.zip$/i.test(name)) {
+        const entries = await readZipCsvFiles(file);
+        entries.forEach((text, entryName) => csvFiles.set(entryName, text));
+      } else if (/\.json$/i.test(name)) {
+        const backup = JSON.parse(await file.text()) as BackupFile;
+        if (
+          backup?.app !== "dont-break-the-chain" ||
+          !Array.isArray(backup.streaks) ||
+          !Array.isArray(backup.check_ins)
+        ) {
+          warnings.push(`${name}: not a Don't Break the Chain backup`);
+          continue;
+        }
+        habits.push(...parseBackup(backup));
+      } else if (/\.csv$/i.test(name)) {
+        csvFiles.set(name, await file.text());
+      } else if (/\.db$/i.test(name)) {
+        warnings.push(
+          `${name}: Loop database backups can't be read; use Loop's "Export as CSV" instead`
+        );
+      } else {
+        warnings.push(`${name}: unsupported file type`);
+      }
+    } catch (err) {
+      console.error("Error reading import file:", err);
+      warnings.push(`${name}: could not be read`);
+    }
+  }
+
+  const loopHabits = Array.from(csvFiles.keys()).find(isLoopHabits);
+  const loopCheckmarks = Array.from(csvFiles.keys()).find(isLoopCheckmarks);
+  if (loopHabits && loopCheckmarks) {
+    habits.push(
+      ...parseLoopExport(
+        csvFiles.get(loopHabits)!,
+        csvFiles.get(loopCheckmarks)!
+      )
+    );
+  } else if (loopHabits || loopCheckmarks) {
+    warnings.push(
+      "A Loop export needs both Habits.csv and Checkmarks.csv; select the whole zip"
+    );
+  }
+
+  csvFiles.forEach((text, name) => {
+    if (name === loopHabits || name === loopCheckmarks) return;
+    // The rest of a Loop export (scores and per-habit copies) adds nothing
+    if (loopHabits && (name.includes("/") || /^Scores\.csv$/i.test(name))) {
+      return;
+    }
+    habits.push(...parseDateListCsv(text, name, warnings));
+  });
+
+  return {
+    habits: habits.map((habit) => normalizePeriods(habit, weekStartsOn)),
+    warnings,
+  };
+};
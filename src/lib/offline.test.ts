@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { resolveConflicts } from "@/lib/offline";
+
+const sorted = (dates?: string[]) => [...(dates ?? [])].sort();
+
+describe("resolveConflicts", () => {
+  it("keeps dates frozen on the server since this device's copy", () => {
+    const resolved = resolveConflicts(
+      { frozen_dates: ["2026-03-01", "2026-03-05"] },
+      { frozen_dates: ["2026-03-01"] },
+      { frozen_dates: ["2026-03-01", "2026-03-03"] }
+    );
+    expect(sorted(resolved.frozen_dates)).toEqual([
+      "2026-03-01",
+      "2026-03-03",
+      "2026-03-05",
+    ]);
+  });
+
+  it("applies dates this device unfroze", () => {
+    const resolved = resolveConflicts(
+      { frozen_dates: ["2026-03-01"] },
+      { frozen_dates: ["2026-03-01", "2026-03-02"] },
+      { frozen_dates: ["2026-03-01", "2026-03-02", "2026-03-04"] }
+    );
+    expect(sorted(resolved.frozen_dates)).toEqual([
+      "2026-03-01",
+      "2026-03-04",
+    ]);
+  });
+
+  it("leaves dates unfrozen on the server unfrozen", () => {
+    const resolved = resolveConflicts(
+      { frozen_dates: ["2026-03-01", "2026-03-02", "2026-03-06"] },
+      { frozen_dates: ["2026-03-01", "2026-03-02"] },
+      { frozen_dates: ["2026-03-01"] }
+    );
+    expect(sorted(resolved.frozen_dates)).toEqual([
+      "2026-03-01",
+      "2026-03-06",
+    ]);
+  });
+
+  it("passes other columns through unchanged", () => {
+    const resolved = resolveConflicts(
+      { name: "Read", frozen_dates: ["2026-03-01"] },
+      { frozen_dates: [] },
+      { frozen_dates: ["2026-03-02"] }
+    );
+    expect(resolved.name).toBe("Read");
+    expect(sorted(resolved.frozen_dates)).toEqual([
+      "2026-03-01",
+      "2026-03-02",
+    ]);
+  });
+
+  it("sends the values as they are without a base to merge from", () => {
+    const values = { frozen_dates: ["2026-03-01"] };
+    expect(
+      resolveConflicts(values, {}, { frozen_dates: ["2026-03-02"] })
+    ).toEqual(values);
+  });
+});
@@ -0,0 +1,525 @@
+// Offline-first persistence: a local IndexedDB copy of the user's streaks,
+// check-ins and profile, and an outbox of pending mutations that is replayed against
+// Supabase whenever connectivity returns.
+
+import { supabase } from "@/lib/supabase";
+import type { CheckInData, ProfileData, StreakData } from "@/lib/supabase";
+import { getWeekIdentifier } from "@/lib/streak-engine";
+
+// Rows as cached locally; Supabase returns a few columns (user_id, order)
+// that StreakData doesn't describe
+export type StreakRow = StreakData & { user_id: string; order: number };
+
+export interface CachedData {
+  streaks: StreakRow[];
+  checkIns: CheckInData[];
+  profile: ProfileData | null;
+}
+
+// Columns merged key by key when the same row was edited on two devices
+type MergeableValues = Partial<Pick<StreakRow, "frozen_dates">>;
+
+export type Mutation =
+  | { kind: "insert"; userId: string; row: StreakRow }
+  | {
+      kind: "update";
+      userId: string;
+      id: string;
+      values: Partial<StreakRow>;
+      // Mergeable columns as they were before this change, so replay can
+      // apply only what this device changed on top of the server's copy
+      base?: MergeableValues;
+    }
+  | { kind: "delete"; userId: string; id: string }
+  // Check-ins are single rows, so edits from two devices only collide when
+  // both touch the same period, and then the latest write wins
+  | { kind: "upsert_check_in"; userId: string; row: CheckInData }
+  | {
+      kind: "delete_check_in";
+      userId: string;
+      habitId: string;
+      periodId: string;
+    }
+  | { kind: "upsert_profile"; userId: string; row: ProfileData }
+  // Moves weekly check-ins to the new weeks along with the setting
+  | { kind: "set_week_start"; userId: string; weekStart: number };
+
+type QueuedMutation = Mutation & { seq?: number; queuedAt: string };
+
+const DB_NAME = "dont-break-chain";
+const DB_VERSION = 3;
+const CACHE_STORE = "streaks";
+const CHECK_IN_CACHE_STORE = "check_ins";
+const PROFILE_CACHE_STORE = "profiles";
+const OUTBOX_STORE = "outbox";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let isFlushing = false;
+const listeners = new Set<(pending: number) => void>();
+const rejectionListeners = new Set<(message: string) => void>();
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        // Cached rows, one record per user keyed by user id
+        if (!db.objectStoreNames.contains(CACHE_STORE)) {
+          db.createObjectStore(CACHE_STORE);
+        }
+        if (!db.objectStoreNames.contains(CHECK_IN_CACHE_STORE)) {
+          db.createObjectStore(CHECK_IN_CACHE_STORE);
+        }
+        if (!db.objectStoreNames.contains(PROFILE_CACHE_STORE)) {
+          db.createObjectStore(PROFILE_CACHE_STORE);
+        }
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          db.createObjectStore(OUTBOX_STORE, {
+            keyPath: "seq",
+            autoIncrement: true,
+          });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = operation(
+      db.transaction(storeName, mode).objectStore(storeName)
+    );
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const getOutbox = (): Promise<QueuedMutation[]> =>
+  runRequest(OUTBOX_STORE, "readonly", (store) => store.getAll());
+
+// Another account's changes stay queued until it signs in again, so only the
+// signed-in user's count as pending
+const notifyListeners = async () => {
+  const [
+    outbox,
+    {
+      data: { session },
+    },
+  ] = await Promise.all([getOutbox(), supabase.auth.getSession()]);
+  const pending = outbox.filter(
+    (mutation) => mutation.userId === session?.user.id
+  ).length;
+  listeners.forEach((listener) => listener(pending));
+};
+
+const isSameCheckIn = (
+  checkIn: CheckInData,
+  habitId: string,
+  periodId: string
+) => checkIn.habit_id === habitId && checkIn.period_id === periodId;
+
+// Apply a mutation to the local data, as the server will once it's replayed
+const applyMutation = (data: CachedData, mutation: Mutation): CachedData => {
+  switch (mutation.kind) {
+    case "insert":
+      return {
+        ...data,
+        streaks: [
+          mutation.row,
+          ...data.streaks.filter((row) => row.id !== mutation.row.id),
+        ],
+      };
+    case "update":
+      return {
+        ...data,
+        streaks: data.streaks.map((row) =>
+          row.id === mutation.id ? { ...row, ...mutation.values } : row
+        ),
+      };
+    case "delete":
+      return {
+        ...data,
+        streaks: data.streaks.filter((row) => row.id !== mutation.id),
+        checkIns: data.checkIns.filter(
+          (checkIn) => checkIn.habit_id !== mutation.id
+        ),
+      };
+    case "upsert_check_in":
+      return {
+        ...data,
+        checkIns: [
+          ...data.checkIns.filter(
+            (checkIn) =>
+              !isSameCheckIn(
+                checkIn,
+                mutation.row.habit_id,
+                mutation.row.period_id
+              )
+          ),
+          mutation.row,
+        ],
+      };
+    case "delete_check_in":
+      return {
+        ...data,
+        checkIns: data.checkIns.filter(
+          (checkIn) =>
+            !isSameCheckIn(checkIn, mutation.habitId, mutation.periodId)
+        ),
+      };
+    case "upsert_profile":
+      return { ...data, profile: mutation.row };
+    case "set_week_start": {
+      // Each week moves to the new week containing its old first day
+      const moveWeek = (week: string) =>
+        getWeekIdentifier(week, mutation.weekStart);
+      const weeklyIds = new Set(
+        data.streaks
+          .filter((row) => row.frequency === "weekly")
+          .map((row) => row.id)
+      );
+      return {
+        streaks: data.streaks.map((row) =>
+          weeklyIds.has(row.id)
+            ? { ...row, frozen_dates: (row.frozen_dates ?? []).map(moveWeek) }
+            : row
+        ),
+        checkIns: data.checkIns.map((checkIn) =>
+          weeklyIds.has(checkIn.habit_id)
+            ? { ...checkIn, period_id: moveWeek(checkIn.period_id) }
+            : checkIn
+        ),
+        profile: data.profile && {
+          ...data.profile,
+          week_start: mutation.weekStart,
+        },
+      };
+    }
+  }
+};
+
+const sortByOrder = (rows: StreakRow[]) =>
+  [...rows].sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+
+export const loadCachedData = async (userId: string): Promise<CachedData> => {
+  try {
+    const [streaks, checkIns, profile] = await Promise.all([
+      runRequest<StreakRow[] | undefined>(CACHE_STORE, "readonly", (store) =>
+        store.get(userId)
+      ),
+      runRequest<CheckInData[] | undefined>(
+        CHECK_IN_CACHE_STORE,
+        "readonly",
+        (store) => store.get(userId)
+      ),
+      runRequest<ProfileData | undefined>(
+        PROFILE_CACHE_STORE,
+        "readonly",
+        (store) => store.get(userId)
+      ),
+    ]);
+    return {
+      streaks: sortByOrder(streaks ?? []),
+      checkIns: checkIns ?? [],
+      profile: profile ?? null,
+    };
+  } catch (err) {
+    console.error("Error reading offline cache:", err);
+    return { streaks: [], checkIns: [], profile: null };
+  }
+};
+
+const CACHE_STORES = [
+  CACHE_STORE,
+  CHECK_IN_CACHE_STORE,
+  PROFILE_CACHE_STORE,
+];
+
+const putCachedData = (
+  transaction: IDBTransaction,
+  userId: string,
+  data: CachedData
+) => {
+  transaction.objectStore(CACHE_STORE).put(data.streaks, userId);
+  transaction.objectStore(CHECK_IN_CACHE_STORE).put(data.checkIns, userId);
+  const profiles = transaction.objectStore(PROFILE_CACHE_STORE);
+  if (data.profile) {
+    profiles.put(data.profile, userId);
+  } else {
+    profiles.delete(userId);
+  }
+};
+
+// Resolves once every request made by `write` in a new transaction is done
+const runTransaction = async (
+  storeNames: string[],
+  write: (transaction: IDBTransaction) => void
+): Promise<void> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeNames, "readwrite");
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+    write(transaction);
+  });
+};
+
+export const cacheData = async (userId: string, data: CachedData) => {
+  try {
+    await runTransaction(CACHE_STORES, (transaction) =>
+      putCachedData(transaction, userId, data)
+    );
+  } catch (err) {
+    console.error("Error writing offline cache:", err);
+  }
+};
+
+// Server data with this device's not-yet-synced changes layered on top
+export const applyPendingMutations = async (
+  userId: string,
+  data: CachedData
+): Promise<CachedData> => {
+  const outbox = await getOutbox();
+  const merged = outbox
+    .filter((mutation) => mutation.userId === userId)
+    .reduce(applyMutation, data);
+  return { ...merged, streaks: sortByOrder(merged.streaks) };
+};
+
+// Three-way merge of keyed records: start from the server's copy and apply
+// only the keys this device added, changed or removed since `base`
+const mergeRecords = <T>(
+  base: Record<string, T>,
+  local: Record<string, T>,
+  server: Record<string, T>
+): Record<string, T> => {
+  const merged = { ...server };
+  Object.entries(local).forEach(([key, value]) => {
+    if (JSON.stringify(base[key]) !== JSON.stringify(value)) {
+      merged[key] = value;
+    }
+  });
+  Object.keys(base).forEach((key) => {
+    if (!(key in local)) delete merged[key];
+  });
+  return merged;
+};
+
+const datesAsRecord = (dates: string[] = []) =>
+  Object.fromEntries(dates.map((date) => [date, date]));
+
+// Resolve a conflicting update against the row currently on the server
+export const resolveConflicts = (
+  values: Partial<StreakRow>,
+  base: MergeableValues,
+  server: MergeableValues
+): Partial<StreakRow> => {
+  const resolved = { ...values };
+  if (values.frozen_dates && base.frozen_dates) {
+    resolved.frozen_dates = Object.keys(
+      mergeRecords(
+        datesAsRecord(base.frozen_dates),
+        datesAsRecord(values.frozen_dates),
+        datesAsRecord(server.frozen_dates)
+      )
+    );
+  }
+  return resolved;
+};
+
+// Failures worth retrying later, as opposed to errors the server will keep
+// returning (which would block the outbox forever)
+const isNetworkError = (error: { message?: string } | null | undefined) =>
+  !navigator.onLine ||
+  /fetch|network|timeout/i.test(error?.message ?? "");
+
+// The session expired or was revoked, rather than the change being refused.
+// supabase-js refreshes sessions before requests, so this only lasts until
+// the user signs in again.
+const isAuthError = (
+  status: number | undefined,
+  error: { code?: string } | null | undefined
+) => status === 401 || /^PGRST30\d$/.test(error?.code ?? "");
+
+const sendMutation = async (mutation: Mutation) => {
+  switch (mutation.kind) {
+    case "insert":
+      return supabase.from("streaks").insert([mutation.row]);
+    case "delete":
+      return supabase.from("streaks").delete().eq("id", mutation.id);
+    case "update": {
+      let values = mutation.values;
+      if (mutation.base) {
+        const { data, error, status } = await supabase
+          .from("streaks")
+          .select("frozen_dates")
+          .eq("id", mutation.id)
+          .maybeSingle();
+        if (error) return { error, status };
+        if (data) values = resolveConflicts(values, mutation.base, data);
+      }
+      return supabase.from("streaks").update(values).eq("id", mutation.id);
+    }
+    case "upsert_check_in":
+      return supabase
+        .from("check_ins")
+        .upsert(mutation.row, { onConflict: "habit_id,period_id" });
+    case "delete_check_in":
+      return supabase
+        .from("check_ins")
+        .delete()
+        .eq("habit_id", mutation.habitId)
+        .eq("period_id", mutation.periodId);
+    case "upsert_profile": {
+      // The week start only changes through set_week_start
+      const values: Partial<ProfileData> = { ...mutation.row };
+      delete values.week_start;
+      return supabase.from("profiles").upsert(values);
+    }
+    case "set_week_start":
+      return supabase.rpc("set_week_start", {
+        new_week_start: mutation.weekStart,
+      });
+  }
+};
+
+// Replay the signed-in user's queued mutations in order, including any
+// queued while replaying. Stops at the first network or session failure so
+// later changes never overtake earlier ones; those wait for the connection or
+// a new session. Other accounts' changes are skipped, staying queued for
+// their owners: row level security would refuse them.
+export const flushOutbox = async () => {
+  if (isFlushing || typeof navigator === "undefined" || !navigator.onLine) {
+    return;
+  }
+  isFlushing = true;
+
+  try {
+    while (true) {
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+      if (!session) break;
+      const mutation = (await getOutbox()).find(
+        (queued) => queued.userId === session.user.id
+      );
+      if (!mutation) break;
+
+      let error: { message?: string; code?: string } | null = null;
+      let status: number | undefined;
+      try {
+        ({ error, status } = await sendMutation(mutation));
+      } catch (err) {
+        error = err as Error;
+      }
+
+      if (error && (isNetworkError(error) || isAuthError(status, error))) {
+        break;
+      }
+      if (error) {
+        console.error("Dropping change rejected by the server:", error);
+        rejectionListeners.forEach((listener) =>
+          listener(error.message ?? "Unknown error")
+        );
+      }
+      await runRequest(OUTBOX_STORE, "readwrite", (store) =>
+        store.delete(mutation.seq!)
+      );
+      await notifyListeners();
+    }
+  } catch (err) {
+    console.error("Error syncing pending changes:", err);
+  } finally {
+    isFlushing = false;
+  }
+};
+
+// Record a change locally and try to send it straight away. Queueing it and
+// updating the cache share one transaction, so two quick changes can't both
+// read the cache before either has written it back.
+export const queueMutation = async (mutation: Mutation) => {
+  try {
+    await runTransaction([OUTBOX_STORE, ...CACHE_STORES], (transaction) => {
+      transaction
+        .objectStore(OUTBOX_STORE)
+        .add({ ...mutation, queuedAt: new Date().toISOString() });
+      const [streaks, checkIns, profile] = CACHE_STORES.map((name) =>
+        transaction.objectStore(name).get(mutation.userId)
+      );
+      // Requests in a transaction finish in order, so the others are done
+      profile.onsuccess = () => {
+        const data: CachedData = {
+          streaks: streaks.result ?? [],
+          checkIns: checkIns.result ?? [],
+          profile: profile.result ?? null,
+        };
+        putCachedData(
+          transaction,
+          mutation.userId,
+          applyMutation(data, mutation)
+        );
+      };
+    });
+    await notifyListeners();
+  } catch (err) {
+    // Without IndexedDB (e.g. some private browsing modes) fall back to
+    // sending the change directly
+    console.error("Error queueing change:", err);
+    const { error } = await sendMutation(mutation);
+    if (error) console.error("Error syncing change:", error);
+    return;
+  }
+  void flushOutbox();
+};
+
+// Listen for changes to the number of pending mutations, and for changes the
+// server refused and that were dropped from the queue
+export const subscribeToOutbox = (
+  listener: (pending: number) => void,
+  onRejected?: (message: string) => void
+): (() => void) => {
+  listeners.add(listener);
+  if (onRejected) rejectionListeners.add(onRejected);
+  notifyListeners().catch((err) =>
+    console.error("Error reading pending changes:", err)
+  );
+
+  const handleOnline = () => flushOutbox();
+  const handleAuthChange = () =>
+    notifyListeners().catch((err) =>
+      console.error("Error reading pending changes:", err)
+    );
+  window.addEventListener("online", handleOnline);
+  // Changes held back by an expired session go once there's a new one, and
+  // the pending count follows whoever is signed in
+  const {
+    data: { subscription },
+  } = supabase.auth.onAuthStateChange((event) => {
+    // Deferred: auth calls made inside this callback can deadlock
+    if (event === "SIGNED_OUT") {
+      setTimeout(handleAuthChange, 0);
+    } else if (event === "SIGNED_IN" || event === "TOKEN_REFRESHED") {
+      setTimeout(() => {
+        handleAuthChange();
+        void flushOutbox();
+      }, 0);
+    }
+  });
+
+  return () => {
+    listeners.delete(listener);
+    if (onRejected) rejectionListeners.delete(onRejected);
+    window.removeEventListener("online", handleOnline);
+    subscription.unsubscribe();
+  };
+};
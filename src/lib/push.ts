@@ -0,0 +1,45 @@
+// Browser side of reminder notifications: registers the service worker,
+// subscribes to Web Push and hands the subscription to the server.
+
+export const isPushSupported = (): boolean =>
+  typeof window !== "undefined" &&
+  "serviceWorker" in navigator &&
+  "PushManager" in window &&
+  "Notification" in window;
+
+// Push services expect the VAPID public key as raw bytes
+const decodeBase64Url = (value: string): Uint8Array<ArrayBuffer> => {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+// Ask for notification permission and register this browser for reminders.
+// Returns false if the user declined or push isn't available.
+export const enablePushNotifications = async (
+  accessToken: string
+): Promise<boolean> => {
+  const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+  if (!isPushSupported() || !publicKey) return false;
+
+  if ((await Notification.requestPermission()) !== "granted") return false;
+
+  const registration = await navigator.serviceWorker.register("/sw.js");
+  await navigator.serviceWorker.ready;
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: decodeBase64Url(publicKey),
+    }));
+
+  const response = await fetch("/api/push/subscriptions", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${accessToken}`,
+    },
+    body: JSON.stringify(subscription),
+  });
+  return response.ok;
+};
@@ -0,0 +1,226 @@
+// Reminder scheduler: finds habits whose reminder time has passed in their
+// owner's home timezone while they're still due, and sends a push
+// notification to each of the owner's subscribed browsers. Meant to run every
+// few minutes from a cron job (see src/app/api/reminders/route.ts).
+
+import { isCheckInComplete } from "@/lib/supabase";
+import type { CheckInData, ProfileData, StreakData } from "@/lib/supabase";
+import { createAdminClient } from "@/lib/supabase-admin";
+import { parseSchedule } from "@/lib/schedule";
+import {
+  addDays,
+  getMonthIdentifier,
+  getNextDueDate,
+  getPeriodIdentifier,
+  getToday,
+} from "@/lib/streak-engine";
+import type { CalendarOptions } from "@/lib/streak-engine";
+import { sendPushNotification } from "@/lib/web-push";
+import type { PushSubscriptionKeys } from "@/lib/web-push";
+
+export type ReminderHabit = Pick<
+  StreakData,
+  "id" | "name" | "frequency" | "schedule" | "target" | "frozen_dates"
+> & {
+  user_id: string;
+  reminder_time: string;
+  last_reminded_on: string | null;
+};
+
+// What the service worker shows, and what "Mark done" completes
+export interface ReminderPayload {
+  title: string;
+  body: string;
+  habitId: string;
+  period: string;
+}
+
+export interface ReminderRunResult {
+  due: number;
+  sent: number;
+  failed: number;
+}
+
+// How far back to look for completions when working out what's due
+const CHECK_IN_LOOKBACK_DAYS = 100;
+
+// Supabase caps each select, so check-ins are read in pages
+const PAGE_SIZE = 1000;
+// Ids are sent in the request URL, so long lists go in chunks
+const CHUNK_SIZE = 100;
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+// Minutes since midnight on the wall clock in the given timezone
+const getLocalMinutes = (now: Date, timeZone?: string): number => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now);
+  const get = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0);
+  return get("hour") * 60 + get("minute");
+};
+
+// The reminder to send for a habit right now, if any. Times are compared
+// from the start of the user's day, so a reminder at 1am with a 3am
+// rollover still belongs to the day before.
+export const getDueReminder = (
+  habit: ReminderHabit,
+  checkIns: CheckInData[],
+  calendar: CalendarOptions,
+  now: Date = new Date()
+): ReminderPayload | null => {
+  const today = getToday({ ...calendar, now });
+  if (habit.last_reminded_on === today) return null;
+
+  const dayStart = (calendar.dayStartHour ?? 0) * 60;
+  const sinceDayStart = (minutes: number) => (minutes - dayStart + 1440) % 1440;
+  if (
+    sinceDayStart(getLocalMinutes(now, calendar.timeZone)) <
+    sinceDayStart(toMinutes(habit.reminder_time))
+  ) {
+    return null;
+  }
+
+  const schedule = parseSchedule(habit.frequency, habit.schedule);
+  const completedDates = new Set(
+    checkIns
+      .filter((checkIn) => isCheckInComplete(checkIn, habit.target))
+      .map((checkIn) => checkIn.period_id)
+  );
+  const dueDate = getNextDueDate(completedDates, schedule, {
+    ...calendar,
+    now,
+    frozenDates: new Set(habit.frozen_dates ?? []),
+  });
+  if (dueDate !== today) return null;
+
+  return {
+    title: "Don't break the chain!",
+    body: `${habit.name} isn't done yet today.`,
+    habitId: habit.id,
+    period: getPeriodIdentifier(schedule, today, calendar.weekStartsOn),
+  };
+};
+
+// Send every reminder that's due. Subscriptions the push service reports as
+// gone are removed.
+export const sendDueReminders = async (
+  now: Date = new Date()
+): Promise<ReminderRunResult> => {
+  const supabase = createAdminClient();
+  const result: ReminderRunResult = { due: 0, sent: 0, failed: 0 };
+
+  const { data: habits, error } = await supabase
+    .from("streaks")
+    .select(
+      "id, user_id, name, frequency, schedule, target, frozen_dates, reminder_time, last_reminded_on"
+    )
+    .not("reminder_time", "is", null)
+    .is("archived_at", null);
+  if (error) throw error;
+  if (!habits || habits.length === 0) return result;
+
+  const userIds = Array.from(new Set(habits.map((habit) => habit.user_id)));
+  const since = getMonthIdentifier(
+    addDays(getToday({ now, timeZone: "UTC" }), -CHECK_IN_LOOKBACK_DAYS)
+  );
+  const profileRows: ProfileData[] = [];
+  const subscriptionRows: (PushSubscriptionKeys & {
+    id: string;
+    user_id: string;
+  })[] = [];
+  for (let i = 0; i < userIds.length; i += CHUNK_SIZE) {
+    const chunk = userIds.slice(i, i + CHUNK_SIZE);
+    const [profilesResult, subscriptionsResult] = await Promise.all([
+      supabase.from("profiles").select("*").in("user_id", chunk),
+      supabase.from("push_subscriptions").select("*").in("user_id", chunk),
+    ]);
+    const loadError = profilesResult.error || subscriptionsResult.error;
+    if (loadError) throw loadError;
+    profileRows.push(...(profilesResult.data ?? []));
+    subscriptionRows.push(...(subscriptionsResult.data ?? []));
+  }
+
+  const habitIds = habits.map((habit) => habit.id);
+  const checkIns: CheckInData[] = [];
+  for (let i = 0; i < habitIds.length; i += CHUNK_SIZE) {
+    const chunk = habitIds.slice(i, i + CHUNK_SIZE);
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error: checkInsError } = await supabase
+        .from("check_ins")
+        .select("*")
+        .in("habit_id", chunk)
+        .gte("period_id", since)
+        .order("period_id", { ascending: true })
+        .order("id", { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+      if (checkInsError) throw checkInsError;
+      checkIns.push(...(data ?? []));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+  }
+
+  const profiles = new Map<string, ProfileData>(
+    profileRows.map((profile) => [profile.user_id, profile])
+  );
+
+  for (const habit of habits as ReminderHabit[]) {
+    const profile = profiles.get(habit.user_id);
+    const calendar: CalendarOptions = {
+      timeZone: profile?.time_zone ?? "UTC",
+      dayStartHour: profile?.day_start_hour,
+      weekStartsOn: profile?.week_start,
+    };
+    const reminder = getDueReminder(
+      habit,
+      checkIns.filter((checkIn) => checkIn.habit_id === habit.id),
+      calendar,
+      now
+    );
+    if (!reminder) continue;
+    result.due++;
+
+    const subscriptions = subscriptionRows.filter(
+      (subscription) => subscription.user_id === habit.user_id
+    );
+
+    for (const subscription of subscriptions) {
+      try {
+        const response = await sendPushNotification(subscription, reminder);
+        if (response.ok) {
+          result.sent++;
+        } else {
+          result.failed++;
+          if (response.isGone) {
+            await supabase
+              .from("push_subscriptions")
+              .delete()
+              .eq("id", subscription.id);
+          }
+        }
+      } catch (err) {
+        result.failed++;
+        console.error("Error sending reminder:", err);
+      }
+    }
+
+    // Marked even when nothing was delivered, so a missing subscription
+    // doesn't make every run retry the same habit
+    const { error: updateError } = await supabase
+      .from("streaks")
+      .update({ last_reminded_on: getToday({ ...calendar, now }) })
+      .eq("id", habit.id);
+    if (updateError) {
+      console.error("Error recording reminder:", updateError);
+    }
+  }
+
+  return result;
+};
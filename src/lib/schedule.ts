@@ -0,0 +1,131 @@
+// Schedule model for habits. The `frequency` column stores the schedule type
+// and the `schedule` column stores any extra parameters the type needs.
+
+export type Frequency =
+  | "daily"
+  | "weekly"
+  | "times_per_week"
+  | "weekdays"
+  | "every_n_days"
+  | "monthly";
+
+export type Schedule =
+  | { type: "daily" }
+  | { type: "weekly" }
+  // Completed on any N days within a week (Monday-Sunday by default)
+  | { type: "times_per_week"; times: number }
+  // Specific days of the week (0 = Sunday, 1 = Monday, ..., 6 = Saturday)
+  | { type: "weekdays"; days: number[] }
+  // At most `interval` days between two completions
+  | { type: "every_n_days"; interval: number }
+  | { type: "monthly" };
+
+// Extra parameters persisted in the `schedule` column
+export interface ScheduleConfig {
+  times?: number;
+  days?: number[];
+  interval?: number;
+}
+
+export const DEFAULT_SCHEDULE: Schedule = { type: "daily" };
+
+export const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Build a schedule from the stored frequency and config, falling back to
+// daily for rows written before custom cadences existed
+export const parseSchedule = (
+  frequency: string | null | undefined,
+  config: ScheduleConfig | null | undefined
+): Schedule => {
+  switch (frequency) {
+    case "weekly":
+      return { type: "weekly" };
+    case "times_per_week":
+      return {
+        type: "times_per_week",
+        times: Math.min(Math.max(config?.times ?? 3, 1), 7),
+      };
+    case "weekdays": {
+      const days = (config?.days ?? []).filter(
+        (day) => Number.isInteger(day) && day >= 0 && day <= 6
+      );
+      return {
+        type: "weekdays",
+        days: days.length > 0 ? Array.from(new Set(days)).sort((a, b) => a - b) : [1, 3, 5],
+      };
+    }
+    case "every_n_days":
+      return {
+        type: "every_n_days",
+        interval: Math.max(config?.interval ?? 2, 1),
+      };
+    case "monthly":
+      return { type: "monthly" };
+    default:
+      return { type: "daily" };
+  }
+};
+
+// Split a schedule back into the `frequency` and `schedule` columns
+export const serializeSchedule = (
+  schedule: Schedule
+): { frequency: Frequency; schedule: ScheduleConfig | null } => {
+  switch (schedule.type) {
+    case "times_per_week":
+      return { frequency: schedule.type, schedule: { times: schedule.times } };
+    case "weekdays":
+      return { frequency: schedule.type, schedule: { days: schedule.days } };
+    case "every_n_days":
+      return {
+        frequency: schedule.type,
+        schedule: { interval: schedule.interval },
+      };
+    default:
+      return { frequency: schedule.type, schedule: null };
+  }
+};
+
+// The unit a streak is counted in: days, weeks or months
+export const getStreakUnit = (schedule: Schedule): "day" | "week" | "month" => {
+  switch (schedule.type) {
+    case "weekly":
+    case "times_per_week":
+      return "week";
+    case "monthly":
+      return "month";
+    default:
+      return "day";
+  }
+};
+
+// Whether completions are stored per day, per week or per month
+export const getPeriodKind = (schedule: Schedule): "day" | "week" | "month" => {
+  switch (schedule.type) {
+    case "weekly":
+      return "week";
+    case "monthly":
+      return "month";
+    default:
+      return "day";
+  }
+};
+
+// Short human-readable description, e.g. "3x per week" or "Mon, Wed, Fri"
+export const describeSchedule = (schedule: Schedule): string => {
+  switch (schedule.type) {
+    case "daily":
+      return "Daily";
+    case "weekly":
+      return "Weekly";
+    case "times_per_week":
+      return `${schedule.times}x per week`;
+    case "weekdays":
+      return schedule.days.map((day) => WEEKDAY_NAMES[day]).join(", ");
+    case "every_n_days":
+      return schedule.interval === 1
+        ? "Daily"
+        : `Every ${schedule.interval} days`;
+    case "monthly":
+      return "Monthly";
+  }
+};
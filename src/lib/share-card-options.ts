@@ -0,0 +1,24 @@
+// Share card layouts and themes, shared by the card route and the share
+// modal. Sizes are in pixels.
+export const SHARE_CARD_TEMPLATES = {
+  square: { label: "Square", width: 1080, height: 1080 },
+  story: { label: "Story", width: 1080, height: 1920 },
+  wide: { label: "Wide", width: 1200, height: 630 },
+  heatmap: { label: "Heatmap", width: 1200, height: 630 },
+} as const;
+
+export type ShareCardTemplate = keyof typeof SHARE_CARD_TEMPLATES;
+
+export const SHARE_CARD_THEMES = ["light", "dark"] as const;
+
+export type ShareCardTheme = (typeof SHARE_CARD_THEMES)[number];
+
+export const isShareCardTemplate = (
+  value: string | null
+): value is ShareCardTemplate =>
+  Object.keys(SHARE_CARD_TEMPLATES).includes(value ?? "");
+
+export const isShareCardTheme = (
+  value: string | null
+): value is ShareCardTheme =>
+  SHARE_CARD_THEMES.includes(value as ShareCardTheme);
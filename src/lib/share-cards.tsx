@@ -0,0 +1,457 @@
+// Share card images, rendered on the server with next/og. Every template
+// draws from the same habit summary, so a card always matches what the
+// public page and the app show.
+
+import { ImageResponse } from "next/og";
+import { getPeriodKind, getStreakUnit } from "@/lib/schedule";
+import {
+  SHARE_CARD_TEMPLATES,
+  type ShareCardTemplate,
+  type ShareCardTheme,
+} from "@/lib/share-card-options";
+import type { HabitSummary } from "@/lib/shared-habits";
+import {
+  addDays,
+  addMonths,
+  getMonthIdentifier,
+  getWeekIdentifier,
+  isScheduledDay,
+} from "@/lib/streak-engine";
+
+interface CardColors {
+  background: string;
+  text: string;
+  muted: string;
+  number: string;
+  empty: string;
+}
+
+const THEMES: Record<ShareCardTheme, CardColors> = {
+  light: {
+    background:
+      "linear-gradient(135deg, #fffbeb 0%, #ffedd5 50%, #fee2e2 100%)",
+    text: "#111827",
+    muted: "#4b5563",
+    number: "#ef4444",
+    empty: "#e5e7eb",
+  },
+  dark: {
+    background: "linear-gradient(135deg, #111827 0%, #1f2937 100%)",
+    text: "#f9fafb",
+    muted: "#9ca3af",
+    number: "#f87171",
+    empty: "#374151",
+  },
+};
+
+const FROZEN_COLOR = "#bae6fd";
+const HEATMAP_WEEKS = 53;
+
+interface CardProps {
+  habit: HabitSummary;
+  colors: CardColors;
+  color: string;
+}
+
+const pluralize = (count: number, word: string) =>
+  `${count} ${word}${count !== 1 ? "s" : ""}`;
+
+const Branding = ({
+  colors,
+  scale = 1,
+}: {
+  colors: CardColors;
+  scale?: number;
+}) => (
+  <div
+    style={{
+      display: "flex",
+      flexDirection: "column",
+      alignItems: "center",
+    }}
+  >
+    <div style={{ fontSize: 36 * scale, fontWeight: 700, color: colors.text }}>
+      Don&apos;t Break the Chain
+    </div>
+    <div style={{ fontSize: 28 * scale, color: colors.muted, marginTop: 8 }}>
+      Building habits, one day at a time
+    </div>
+  </div>
+);
+
+// Card background with soft circles in the habit's colour in two corners.
+// The content sits in its own layer so its padding doesn't move the circles.
+const Frame = ({
+  template,
+  colors,
+  color,
+  circleSize,
+  style,
+  children,
+}: {
+  template: ShareCardTemplate;
+  colors: CardColors;
+  color: string;
+  circleSize: number;
+  style: React.CSSProperties;
+  children: React.ReactNode;
+}) => {
+  const { width, height } = SHARE_CARD_TEMPLATES[template];
+  const circle = {
+    position: "absolute",
+    width: circleSize,
+    height: circleSize,
+    borderRadius: circleSize,
+    backgroundColor: color,
+    opacity: 0.2,
+  } as const;
+  return (
+    <div
+      style={{
+        width: "100%",
+        height: "100%",
+        display: "flex",
+        position: "relative",
+        background: colors.background,
+      }}
+    >
+      <div
+        style={{
+          ...circle,
+          top: -circleSize / 3,
+          left: width - (circleSize * 2) / 3,
+        }}
+      />
+      <div
+        style={{
+          ...circle,
+          top: height - (circleSize * 2) / 3,
+          left: -circleSize / 3,
+        }}
+      />
+      <div
+        style={{
+          position: "absolute",
+          top: 0,
+          left: 0,
+          width,
+          height,
+          display: "flex",
+          ...style,
+        }}
+      >
+        {children}
+      </div>
+    </div>
+  );
+};
+
+const SquareCard = ({ habit, colors, color }: CardProps) => (
+  <Frame
+    template="square"
+    colors={colors}
+    color={color}
+    circleSize={480}
+    style={{
+      flexDirection: "column",
+      alignItems: "center",
+      justifyContent: "space-between",
+      padding: 96,
+    }}
+  >
+    <div style={{ fontSize: 72, fontWeight: 700, color: colors.text }}>
+      {habit.name}
+    </div>
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        alignItems: "center",
+      }}
+    >
+      <div
+        style={{
+          fontSize: 320,
+          fontWeight: 900,
+          lineHeight: 1,
+          color: colors.number,
+        }}
+      >
+        {`${habit.currentStreak}`}
+      </div>
+      <div
+        style={{
+          fontSize: 64,
+          fontWeight: 700,
+          color: colors.muted,
+          textTransform: "uppercase",
+          letterSpacing: 4,
+          marginTop: 24,
+        }}
+      >
+        {`${getStreakUnit(habit.schedule)} Streak`}
+      </div>
+    </div>
+    <Branding colors={colors} />
+  </Frame>
+);
+
+const StoryCard = ({ habit, colors, color }: CardProps) => {
+  const unit = getStreakUnit(habit.schedule);
+  return (
+    <Frame
+      template="story"
+      colors={colors}
+      color={color}
+      circleSize={640}
+      style={{
+        flexDirection: "column",
+        alignItems: "center",
+        justifyContent: "space-between",
+        padding: "200px 96px 160px",
+      }}
+    >
+      <div
+        style={{
+          fontSize: 88,
+          fontWeight: 700,
+          color: colors.text,
+          textAlign: "center",
+        }}
+      >
+        {habit.name}
+      </div>
+      <div
+        style={{
+          display: "flex",
+          flexDirection: "column",
+          alignItems: "center",
+        }}
+      >
+        <div
+          style={{
+            fontSize: 440,
+            fontWeight: 900,
+            lineHeight: 1,
+            color: colors.number,
+          }}
+        >
+          {`${habit.currentStreak}`}
+        </div>
+        <div
+          style={{
+            fontSize: 72,
+            fontWeight: 700,
+            color: colors.muted,
+            textTransform: "uppercase",
+            letterSpacing: 4,
+            marginTop: 32,
+          }}
+        >
+          {`${unit}${habit.currentStreak !== 1 ? "s" : ""} in a row`}
+        </div>
+        <div style={{ fontSize: 48, color: colors.muted, marginTop: 64 }}>
+          {`Best: ${pluralize(habit.longestStreak, unit)}`}
+        </div>
+      </div>
+      <Branding colors={colors} scale={1.3} />
+    </Frame>
+  );
+};
+
+const WideCard = ({ habit, colors, color }: CardProps) => (
+  <Frame
+    template="wide"
+    colors={colors}
+    color={color}
+    circleSize={360}
+    style={{
+      alignItems: "center",
+      justifyContent: "space-between",
+      padding: "64px 96px",
+    }}
+  >
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        maxWidth: 640,
+      }}
+    >
+      <div style={{ fontSize: 64, fontWeight: 700, color: colors.text }}>
+        {habit.name}
+      </div>
+      <div
+        style={{
+          fontSize: 40,
+          fontWeight: 700,
+          color: colors.muted,
+          textTransform: "uppercase",
+          letterSpacing: 4,
+          marginTop: 16,
+        }}
+      >
+        {`${getStreakUnit(habit.schedule)} Streak`}
+      </div>
+      <div style={{ fontSize: 28, color: colors.muted, marginTop: 64 }}>
+        Don&apos;t Break the Chain
+      </div>
+    </div>
+    <div
+      style={{
+        fontSize: 260,
+        fontWeight: 900,
+        lineHeight: 1,
+        color: colors.number,
+      }}
+    >
+      {`${habit.currentStreak}`}
+    </div>
+  </Frame>
+);
+
+// The last year of the habit, laid out like the in-app heatmap
+const HeatmapCard = ({ habit, colors, color }: CardProps) => {
+  const kind = getPeriodKind(habit.schedule);
+  const { today } = habit;
+
+  const renderCell = (
+    identifier: string,
+    size: number,
+    isFuture: boolean,
+    isScheduled = true
+  ) => {
+    const background = isFuture
+      ? "transparent"
+      : habit.completedDates.has(identifier)
+      ? color
+      : habit.frozenDates.has(identifier)
+      ? FROZEN_COLOR
+      : colors.empty;
+    return (
+      <div
+        key={identifier}
+        style={{
+          width: size,
+          height: size,
+          borderRadius: size / 5,
+          backgroundColor: background,
+          opacity: isScheduled ? 1 : 0.4,
+        }}
+      />
+    );
+  };
+
+  const firstWeek = addDays(
+    getWeekIdentifier(today, habit.calendar.weekStartsOn),
+    -(HEATMAP_WEEKS - 1) * 7
+  );
+  const weeks = Array.from({ length: HEATMAP_WEEKS }, (_, i) =>
+    addDays(firstWeek, i * 7)
+  );
+
+  let grid;
+  if (kind === "month") {
+    const currentMonth = getMonthIdentifier(today);
+    grid = (
+      <div style={{ display: "flex", gap: 16 }}>
+        {Array.from({ length: 12 }, (_, i) =>
+          renderCell(addMonths(currentMonth, i - 11), 72, false)
+        )}
+      </div>
+    );
+  } else if (kind === "week") {
+    grid = (
+      <div style={{ display: "flex", gap: 4 }}>
+        {weeks.map((week) => renderCell(week, 16, week > today))}
+      </div>
+    );
+  } else {
+    grid = (
+      <div style={{ display: "flex", gap: 4 }}>
+        {weeks.map((week) => (
+          <div
+            key={week}
+            style={{ display: "flex", flexDirection: "column", gap: 4 }}
+          >
+            {Array.from({ length: 7 }, (_, day) => {
+              const date = addDays(week, day);
+              return renderCell(
+                date,
+                16,
+                date > today,
+                isScheduledDay(habit.schedule, date)
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  const unit = getStreakUnit(habit.schedule);
+  return (
+    <div
+      style={{
+        width: "100%",
+        height: "100%",
+        display: "flex",
+        flexDirection: "column",
+        justifyContent: "space-between",
+        padding: "64px 48px",
+        background: colors.background,
+      }}
+    >
+      <div
+        style={{
+          display: "flex",
+          alignItems: "baseline",
+          justifyContent: "space-between",
+        }}
+      >
+        <div style={{ fontSize: 56, fontWeight: 700, color: colors.text }}>
+          {habit.name}
+        </div>
+        <div style={{ fontSize: 40, fontWeight: 700, color: colors.number }}>
+          {`${pluralize(habit.currentStreak, unit)} in a row`}
+        </div>
+      </div>
+      <div style={{ display: "flex", justifyContent: "center" }}>{grid}</div>
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          fontSize: 28,
+          color: colors.muted,
+        }}
+      >
+        <div>{`Best: ${pluralize(habit.longestStreak, unit)}`}</div>
+        <div>Don&apos;t Break the Chain</div>
+      </div>
+    </div>
+  );
+};
+
+const CARDS: Record<
+  ShareCardTemplate,
+  (props: CardProps) => React.ReactElement
+> = {
+  square: SquareCard,
+  story: StoryCard,
+  wide: WideCard,
+  heatmap: HeatmapCard,
+};
+
+export const renderShareCard = (
+  habit: HabitSummary,
+  template: ShareCardTemplate,
+  theme: ShareCardTheme,
+  color: string
+) => {
+  const Card = CARDS[template];
+  const { width, height } = SHARE_CARD_TEMPLATES[template];
+  return new ImageResponse(
+    <Card habit={habit} colors={THEMES[theme]} color={color} />,
+    { width, height }
+  );
+};
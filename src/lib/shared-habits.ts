@@ -0,0 +1,118 @@
+// Loads a habit with its streak numbers for server-rendered pages and
+// images: public pages (/s/<slug>) and share cards. Only the columns those
+// display are read.
+
+import { cache } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { isCheckInComplete } from "@/lib/supabase";
+import type { CheckInData } from "@/lib/supabase";
+import { createAdminClient } from "@/lib/supabase-admin";
+import { parseSchedule } from "@/lib/schedule";
+import type { Schedule } from "@/lib/schedule";
+import {
+  getCurrentStreak,
+  getLongestStreak,
+  getToday,
+} from "@/lib/streak-engine";
+import type { CalendarOptions } from "@/lib/streak-engine";
+
+export interface HabitSummary {
+  id: string;
+  name: string;
+  schedule: Schedule;
+  unit: string | null;
+  target: number | null;
+  completedDates: Set<string>;
+  frozenDates: Set<string>;
+  calendar: CalendarOptions;
+  today: string;
+  currentStreak: number;
+  longestStreak: number;
+}
+
+// Supabase caps each select, so check-ins are read in pages
+const PAGE_SIZE = 1000;
+
+const loadCheckIns = async (supabase: SupabaseClient, habitId: string) => {
+  const checkIns: Pick<CheckInData, "period_id" | "value">[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("check_ins")
+      .select("period_id, value")
+      .eq("habit_id", habitId)
+      .order("period_id", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    checkIns.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return checkIns;
+};
+
+const loadHabitSummary = async (
+  supabase: SupabaseClient,
+  column: "id" | "public_slug",
+  value: string
+): Promise<HabitSummary | null> => {
+  let query = supabase
+    .from("streaks")
+    .select(
+      "id, user_id, name, frequency, schedule, unit, target, frozen_dates"
+    )
+    .eq(column, value);
+  // Deleting a habit archives it, which takes its public page down with it
+  if (column === "public_slug") query = query.is("archived_at", null);
+  const { data: habit, error } = await query.maybeSingle();
+  if (error) throw error;
+  if (!habit) return null;
+
+  const [checkIns, profileResult] = await Promise.all([
+    loadCheckIns(supabase, habit.id),
+    supabase
+      .from("profiles")
+      .select("time_zone, day_start_hour, week_start")
+      .eq("user_id", habit.user_id)
+      .maybeSingle(),
+  ]);
+
+  // Days are counted in the owner's timezone, not the viewer's
+  const profile = profileResult.data;
+  const calendar: CalendarOptions = {
+    timeZone: profile?.time_zone ?? "UTC",
+    dayStartHour: profile?.day_start_hour,
+    weekStartsOn: profile?.week_start,
+  };
+  const schedule = parseSchedule(habit.frequency, habit.schedule);
+  const completedDates = new Set<string>(
+    checkIns
+      .filter((checkIn) => isCheckInComplete(checkIn, habit.target))
+      .map((checkIn) => checkIn.period_id)
+  );
+  const frozenDates = new Set<string>(habit.frozen_dates ?? []);
+  const options = { ...calendar, frozenDates };
+
+  return {
+    id: habit.id,
+    name: habit.name,
+    schedule,
+    unit: habit.unit,
+    target: habit.target,
+    completedDates,
+    frozenDates,
+    calendar,
+    today: getToday(calendar),
+    currentStreak: getCurrentStreak(completedDates, schedule, options),
+    longestStreak: getLongestStreak(completedDates, schedule, options),
+  };
+};
+
+// A habit shared through a public link. Read with the service role, and
+// cached per request so a page and its metadata share one lookup.
+export const getSharedHabit = cache((slug: string) =>
+  loadHabitSummary(createAdminClient(), "public_slug", slug)
+);
+
+// One of the signed-in user's habits, through their row level security
+export const getHabitSummary = (supabase: SupabaseClient, id: string) =>
+  loadHabitSummary(supabase, "id", id);
@@ -0,0 +1,290 @@
+import { describe, expect, it } from "vitest";
+import type { Schedule } from "@/lib/schedule";
+import {
+  getCompletionRate,
+  getCurrentStreak,
+  getNextDueDate,
+  getStreakRuns,
+  getToday,
+} from "@/lib/streak-engine";
+
+const daily: Schedule = { type: "daily" };
+const weekly: Schedule = { type: "weekly" };
+const monthly: Schedule = { type: "monthly" };
+const twicePerWeek: Schedule = { type: "times_per_week", times: 2 };
+
+const dates = (...values: string[]) => new Set(values);
+
+// Noon UTC on a date, far from any day boundary unless a test wants one
+const at = (instant: string) => ({
+  now: new Date(instant),
+  timeZone: "UTC",
+});
+
+describe("getToday", () => {
+  it("counts hours before dayStartHour toward the previous day", () => {
+    expect(
+      getToday({ ...at("2026-03-10T02:00:00Z"), dayStartHour: 3 })
+    ).toBe("2026-03-09");
+    expect(
+      getToday({ ...at("2026-03-10T03:00:00Z"), dayStartHour: 3 })
+    ).toBe("2026-03-10");
+  });
+
+  it("uses the given timezone", () => {
+    const now = new Date("2026-03-10T03:30:00Z");
+    expect(getToday({ now, timeZone: "America/New_York" })).toBe(
+      "2026-03-09"
+    );
+    expect(getToday({ now, timeZone: "Asia/Tokyo" })).toBe("2026-03-10");
+  });
+});
+
+describe("getCurrentStreak", () => {
+  it("keeps yesterday's chain while today isn't done yet", () => {
+    const completed = dates("2026-03-08", "2026-03-09");
+    expect(
+      getCurrentStreak(completed, daily, at("2026-03-10T12:00:00Z"))
+    ).toBe(2);
+  });
+
+  it("counts today once it's done", () => {
+    const completed = dates("2026-03-08", "2026-03-09", "2026-03-10");
+    expect(
+      getCurrentStreak(completed, daily, at("2026-03-10T12:00:00Z"))
+    ).toBe(3);
+  });
+
+  it("breaks once a whole day is missed", () => {
+    const completed = dates("2026-03-07", "2026-03-08");
+    expect(
+      getCurrentStreak(completed, daily, at("2026-03-10T12:00:00Z"))
+    ).toBe(0);
+  });
+
+  it("lets a late night count toward the previous day", () => {
+    const completed = dates("2026-03-08", "2026-03-09");
+    const options = { ...at("2026-03-11T01:30:00Z"), dayStartHour: 3 };
+    expect(getCurrentStreak(completed, daily, options)).toBe(2);
+  });
+
+  it("bridges frozen days", () => {
+    const completed = dates("2026-03-07", "2026-03-09");
+    const options = {
+      ...at("2026-03-10T12:00:00Z"),
+      frozenDates: dates("2026-03-08"),
+    };
+    expect(getCurrentStreak(completed, daily, options)).toBe(2);
+  });
+
+  it("isn't thrown off by the spring DST change", () => {
+    // Clocks in New York went forward on 2026-03-08
+    const completed = dates("2026-03-07", "2026-03-08", "2026-03-09");
+    const now = new Date("2026-03-10T03:30:00Z"); // 23:30 on the 9th
+    expect(
+      getCurrentStreak(completed, daily, {
+        now,
+        timeZone: "America/New_York",
+      })
+    ).toBe(3);
+  });
+
+  it("isn't thrown off by the autumn DST change", () => {
+    // Clocks in Berlin went back on 2026-10-25
+    const completed = dates("2026-10-24", "2026-10-25", "2026-10-26");
+    const now = new Date("2026-10-26T22:30:00Z"); // 23:30 on the 26th
+    expect(
+      getCurrentStreak(completed, daily, { now, timeZone: "Europe/Berlin" })
+    ).toBe(3);
+  });
+
+  it("carries daily chains across the new year", () => {
+    const completed = dates("2025-12-30", "2025-12-31", "2026-01-01");
+    expect(
+      getCurrentStreak(completed, daily, at("2026-01-02T12:00:00Z"))
+    ).toBe(3);
+  });
+
+  it("carries weekly and monthly chains across the new year", () => {
+    expect(
+      getCurrentStreak(
+        dates("2025-12-22", "2025-12-29"),
+        weekly,
+        at("2026-01-07T12:00:00Z")
+      )
+    ).toBe(2);
+    expect(
+      getCurrentStreak(
+        dates("2025-11", "2025-12"),
+        monthly,
+        at("2026-01-15T12:00:00Z")
+      )
+    ).toBe(2);
+  });
+
+  it("identifies weeks by the configured week start", () => {
+    // Sunday-start weeks: 2025-12-28 and 2026-01-04
+    const options = { ...at("2026-01-12T12:00:00Z"), weekStartsOn: 0 };
+    expect(
+      getCurrentStreak(dates("2025-12-28", "2026-01-04"), weekly, options)
+    ).toBe(2);
+  });
+
+  it("counts a times-per-week week that didn't start with a check-in", () => {
+    // Weeks of Mon 02-23 and Mon 03-02, the first begun on a Tuesday
+    const completed = dates(
+      "2026-02-24",
+      "2026-02-26",
+      "2026-03-02",
+      "2026-03-03"
+    );
+    expect(
+      getCurrentStreak(completed, twicePerWeek, at("2026-03-05T12:00:00Z"))
+    ).toBe(2);
+  });
+
+  it("keeps every-n-days chains within the interval", () => {
+    const everyThree: Schedule = { type: "every_n_days", interval: 3 };
+    const completed = dates("2026-03-01", "2026-03-04", "2026-03-06");
+    expect(
+      getCurrentStreak(completed, everyThree, at("2026-03-09T12:00:00Z"))
+    ).toBe(3);
+    expect(
+      getCurrentStreak(completed, everyThree, at("2026-03-10T12:00:00Z"))
+    ).toBe(0);
+  });
+});
+
+describe("getStreakRuns", () => {
+  it("splits chains at missed days", () => {
+    const completed = dates(
+      "2026-03-01",
+      "2026-03-02",
+      "2026-03-04",
+      "2026-03-05",
+      "2026-03-06"
+    );
+    expect(
+      getStreakRuns(completed, daily, at("2026-03-07T12:00:00Z"))
+    ).toEqual([
+      { start: "2026-03-01", end: "2026-03-02", length: 2 },
+      { start: "2026-03-04", end: "2026-03-06", length: 3 },
+    ]);
+  });
+
+  it("walks times-per-week habits in whole weeks", () => {
+    const completed = dates(
+      "2026-02-24",
+      "2026-02-26",
+      "2026-03-02",
+      "2026-03-03"
+    );
+    expect(
+      getStreakRuns(completed, twicePerWeek, at("2026-03-05T12:00:00Z"))
+    ).toEqual([{ start: "2026-02-23", end: "2026-03-02", length: 2 }]);
+  });
+
+  it("runs across the new year", () => {
+    const completed = dates("2025-12-31", "2026-01-01");
+    expect(
+      getStreakRuns(completed, daily, at("2026-01-01T12:00:00Z"))
+    ).toEqual([{ start: "2025-12-31", end: "2026-01-01", length: 2 }]);
+  });
+});
+
+describe("getCompletionRate", () => {
+  it("doesn't count an unfinished today against the rate", () => {
+    const completed = dates("2026-03-08", "2026-03-09");
+    expect(
+      getCompletionRate(completed, daily, {
+        ...at("2026-03-10T12:00:00Z"),
+        days: 3,
+      })
+    ).toBe(1);
+  });
+
+  it("counts missed days in the window", () => {
+    const completed = dates("2026-03-07", "2026-03-09");
+    expect(
+      getCompletionRate(completed, daily, {
+        ...at("2026-03-10T12:00:00Z"),
+        days: 4,
+      })
+    ).toBe(2 / 3);
+  });
+
+  it("starts from the week the window starts in", () => {
+    // The window starts on Tue 02-24: weeks of 02-23 (done), 03-02 (missed)
+    // and 03-09 (current, not done yet)
+    const completed = dates("2026-02-24", "2026-02-26");
+    expect(
+      getCompletionRate(completed, twicePerWeek, {
+        ...at("2026-03-10T12:00:00Z"),
+        days: 15,
+      })
+    ).toBe(0.5);
+  });
+
+  it("ignores days before `since`", () => {
+    const completed = dates("2026-03-09");
+    expect(
+      getCompletionRate(completed, daily, {
+        ...at("2026-03-10T12:00:00Z"),
+        days: 30,
+        since: "2026-03-09",
+      })
+    ).toBe(1);
+  });
+});
+
+describe("getNextDueDate", () => {
+  it("is today until a daily habit is done, then tomorrow", () => {
+    const options = at("2026-03-10T12:00:00Z");
+    expect(getNextDueDate(dates(), daily, options)).toBe("2026-03-10");
+    expect(getNextDueDate(dates("2026-03-10"), daily, options)).toBe(
+      "2026-03-11"
+    );
+  });
+
+  it("skips to the next scheduled weekday", () => {
+    const monWedFri: Schedule = { type: "weekdays", days: [1, 3, 5] };
+    // 2026-03-10 is a Tuesday
+    expect(
+      getNextDueDate(dates(), monWedFri, at("2026-03-10T12:00:00Z"))
+    ).toBe("2026-03-11");
+  });
+
+  it("follows the day start hour", () => {
+    const options = { ...at("2026-03-11T01:00:00Z"), dayStartHour: 3 };
+    expect(getNextDueDate(dates("2026-03-10"), daily, options)).toBe(
+      "2026-03-11"
+    );
+  });
+
+  it("moves a times-per-week habit on to tomorrow once today is done", () => {
+    expect(
+      getNextDueDate(
+        dates("2026-03-10"),
+        twicePerWeek,
+        at("2026-03-10T12:00:00Z")
+      )
+    ).toBe("2026-03-11");
+  });
+
+  it("is the first of next month once a monthly habit is done", () => {
+    expect(
+      getNextDueDate(dates("2025-12"), monthly, at("2025-12-15T12:00:00Z"))
+    ).toBe("2026-01-01");
+  });
+
+  it("is the end of the interval for every-n-days habits", () => {
+    const everyThree: Schedule = { type: "every_n_days", interval: 3 };
+    expect(
+      getNextDueDate(
+        dates("2026-03-08"),
+        everyThree,
+        at("2026-03-10T12:00:00Z")
+      )
+    ).toBe("2026-03-11");
+  });
+});
@@ -0,0 +1,535 @@
+// Pure streak calculations shared by the UI and server code. Every function
+// works on calendar date strings (YYYY-MM-DD), so results don't depend on the
+// machine's clock or timezone unless no `now` / `timeZone` is passed in.
+
+import { getPeriodKind } from "@/lib/schedule";
+import type { Schedule } from "@/lib/schedule";
+
+export interface StreakEngineOptions {
+  // The moment to evaluate streaks at (defaults to the current time)
+  now?: Date;
+  // IANA timezone that decides which calendar day `now` falls on
+  // (defaults to the runtime's local timezone)
+  timeZone?: string;
+  // Hour (0-23) at which a new day begins; anything earlier still counts
+  // toward the previous day, e.g. 3 for "my day ends at 3am"
+  dayStartHour?: number;
+  // Day weeks start on (0 = Sunday, 1 = Monday, 6 = Saturday; defaults to
+  // Monday). Weekly habits are identified by their week's first day.
+  weekStartsOn?: number;
+  // Periods marked as freezes: they bridge a gap without counting as done
+  frozenDates?: ReadonlySet<string>;
+}
+
+export interface CompletionRateOptions extends StreakEngineOptions {
+  // Size of the window in days, ending today
+  days: number;
+  // Don't count periods before this date, e.g. the habit's creation date
+  since?: string;
+}
+
+// The user's calendar settings: which day an instant belongs to and which
+// day starts a week
+export type CalendarOptions = Pick<
+  StreakEngineOptions,
+  "timeZone" | "dayStartHour" | "weekStartsOn"
+>;
+
+const MS_PER_HOUR = 3600000;
+const MS_PER_DAY = 86400000;
+
+// Calendar arithmetic is done in UTC so DST transitions never add or drop
+// an hour from a day
+const toUTCDate = (dateString: string): Date => {
+  const [year, month, day] = dateString.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+const fromUTCDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+// Get the calendar date (YYYY-MM-DD) of an instant in the given timezone
+export const getLocalDateString = (date: Date, timeZone?: string): string => {
+  if (!timeZone) {
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, "0");
+    const day = String(date.getDate()).padStart(2, "0");
+    return `${year}-${month}-${day}`;
+  }
+
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).formatToParts(date);
+  const get = (type: string) =>
+    parts.find((part) => part.type === type)?.value ?? "";
+  return `${get("year")}-${get("month")}-${get("day")}`;
+};
+
+// Parse a YYYY-MM-DD string as local midnight, for display with toLocaleDateString
+export const parseDateString = (dateString: string): Date => {
+  const [year, month, day] = dateString.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// The day an instant counts toward, after applying the day-rollover hour
+export const getDayForInstant = (
+  date: Date,
+  options: CalendarOptions = {}
+): string =>
+  getLocalDateString(
+    new Date(date.getTime() - (options.dayStartHour ?? 0) * MS_PER_HOUR),
+    options.timeZone
+  );
+
+export const getToday = (options: StreakEngineOptions = {}): string =>
+  getDayForInstant(options.now ?? new Date(), options);
+
+export const addDays = (dateString: string, days: number): string => {
+  const date = toUTCDate(dateString);
+  date.setUTCDate(date.getUTCDate() + days);
+  return fromUTCDate(date);
+};
+
+export const addMonths = (monthIdentifier: string, months: number): string => {
+  const [year, month] = monthIdentifier.split("-").map(Number);
+  return fromUTCDate(new Date(Date.UTC(year, month - 1 + months, 1))).slice(
+    0,
+    7
+  );
+};
+
+// Whole days from `from` to `to` (negative when `to` is earlier)
+export const daysBetween = (from: string, to: string): number =>
+  Math.round((toUTCDate(to).getTime() - toUTCDate(from).getTime()) / MS_PER_DAY);
+
+// 0 = Sunday, 1 = Monday, ..., 6 = Saturday
+export const getDayOfWeek = (dateString: string): number =>
+  toUTCDate(dateString).getUTCDay();
+
+// Get the first day of the week containing the given date (a Monday unless
+// another week start is given). Weekly habits use this date as their week
+// identifier.
+export const getWeekIdentifier = (
+  dateString: string,
+  weekStartsOn = 1
+): string =>
+  addDays(dateString, -((getDayOfWeek(dateString) - weekStartsOn + 7) % 7));
+
+// Get start and end dates of a week from its identifier
+export const getWeekDates = (
+  weekIdentifier: string
+): { start: string; end: string } => ({
+  start: weekIdentifier,
+  end: addDays(weekIdentifier, 6),
+});
+
+// Get month identifier in YYYY-MM format
+export const getMonthIdentifier = (dateString: string): string =>
+  dateString.slice(0, 7);
+
+// Identifier of the period (day, week or month) a date falls in
+export const getPeriodIdentifier = (
+  schedule: Schedule,
+  dateString: string,
+  weekStartsOn?: number
+): string => {
+  switch (getPeriodKind(schedule)) {
+    case "week":
+      return getWeekIdentifier(dateString, weekStartsOn);
+    case "month":
+      return getMonthIdentifier(dateString);
+    default:
+      return dateString;
+  }
+};
+
+// Number of completed days in the week containing the given date
+export const getWeekCompletionCount = (
+  completedDates: ReadonlySet<string>,
+  dateString: string,
+  weekStartsOn?: number
+): number => {
+  const weekStart = getWeekIdentifier(dateString, weekStartsOn);
+  let count = 0;
+  for (let i = 0; i < 7; i++) {
+    if (completedDates.has(addDays(weekStart, i))) count++;
+  }
+  return count;
+};
+
+// Whether a day is a scheduled occurrence. Only specific-weekday schedules
+// have days off; every other schedule treats all days alike.
+export const isScheduledDay = (
+  schedule: Schedule,
+  dateString: string
+): boolean =>
+  schedule.type === "weekdays"
+    ? schedule.days.includes(getDayOfWeek(dateString))
+    : true;
+
+// Number of frozen periods in the month, for enforcing the monthly allowance.
+// Week identifiers count towards the month their first day falls in.
+export const getFreezesUsedInMonth = (
+  frozenDates: ReadonlySet<string>,
+  monthIdentifier: string
+): number =>
+  Array.from(frozenDates).filter(
+    (date) => getMonthIdentifier(date) === monthIdentifier
+  ).length;
+
+// The periods a schedule is tracked in, stepping from one to the next.
+// Frozen periods that weren't done are treated as unscheduled, so they
+// neither extend nor break a chain. `every_n_days` is gap-based and
+// handled separately.
+interface PeriodWalker {
+  current: string;
+  // The walked period a date falls in. Unlike getPeriodIdentifier, this is
+  // the week for times_per_week, whose completions are stored per day.
+  periodOf: (date: string) => string;
+  step: (period: string, direction: 1 | -1) => string;
+  isDone: (period: string) => boolean;
+  isScheduled: (period: string) => boolean;
+}
+
+const getPeriodWalker = (
+  completedDates: ReadonlySet<string>,
+  schedule: Schedule,
+  today: string,
+  options: StreakEngineOptions = {}
+): PeriodWalker => {
+  const frozenDates = options.frozenDates ?? new Set<string>();
+  const walker = getBasePeriodWalker(
+    completedDates,
+    schedule,
+    today,
+    options.weekStartsOn
+  );
+  const isFrozen =
+    schedule.type === "times_per_week"
+      ? (week: string) =>
+          Array.from({ length: 7 }, (_, i) => addDays(week, i)).some((day) =>
+            frozenDates.has(day)
+          )
+      : (period: string) => frozenDates.has(period);
+
+  return {
+    ...walker,
+    isScheduled: (period) =>
+      walker.isScheduled(period) &&
+      (walker.isDone(period) || !isFrozen(period)),
+  };
+};
+
+const getBasePeriodWalker = (
+  completedDates: ReadonlySet<string>,
+  schedule: Schedule,
+  today: string,
+  weekStartsOn?: number
+): PeriodWalker => {
+  switch (schedule.type) {
+    case "weekly":
+      return {
+        current: getWeekIdentifier(today, weekStartsOn),
+        periodOf: (date) => getWeekIdentifier(date, weekStartsOn),
+        step: (week, direction) => addDays(week, direction * 7),
+        isDone: (week) => completedDates.has(week),
+        isScheduled: () => true,
+      };
+    case "times_per_week":
+      return {
+        current: getWeekIdentifier(today, weekStartsOn),
+        periodOf: (date) => getWeekIdentifier(date, weekStartsOn),
+        step: (week, direction) => addDays(week, direction * 7),
+        isDone: (week) =>
+          getWeekCompletionCount(completedDates, week, weekStartsOn) >=
+          schedule.times,
+        isScheduled: () => true,
+      };
+    case "monthly":
+      return {
+        current: getMonthIdentifier(today),
+        periodOf: (date) => getMonthIdentifier(date),
+        step: (month, direction) => addMonths(month, direction),
+        isDone: (month) => completedDates.has(month),
+        isScheduled: () => true,
+      };
+    default:
+      return {
+        current: today,
+        periodOf: (date) => date,
+        step: (day, direction) => addDays(day, direction),
+        isDone: (day) => completedDates.has(day),
+        isScheduled: (day) => isScheduledDay(schedule, day),
+      };
+  }
+};
+
+// Completion dates on or before today, oldest first. Week and month
+// identifiers sort correctly alongside plain dates.
+const getPastCompletions = (
+  completedDates: ReadonlySet<string>,
+  today: string
+): string[] =>
+  Array.from(completedDates)
+    .filter((date) => date <= today)
+    .sort();
+
+// Days from `from` to `to`, not counting frozen days in between
+const getUnfrozenGap = (
+  from: string,
+  to: string,
+  frozenDates: ReadonlySet<string>
+): number => {
+  let gap = daysBetween(from, to);
+  for (let day = addDays(from, 1); day < to; day = addDays(day, 1)) {
+    if (frozenDates.has(day)) gap--;
+  }
+  return gap;
+};
+
+// Split every_n_days completions into chains where no gap exceeds the interval
+const getIntervalRuns = (
+  dates: string[],
+  interval: number,
+  frozenDates: ReadonlySet<string>
+): string[][] => {
+  const runs: string[][] = [];
+  dates.forEach((date, index) => {
+    if (
+      index > 0 &&
+      getUnfrozenGap(dates[index - 1], date, frozenDates) <= interval
+    ) {
+      runs[runs.length - 1].push(date);
+    } else {
+      runs.push([date]);
+    }
+  });
+  return runs;
+};
+
+// Current chain length, in the schedule's unit. The current period only
+// breaks the chain once it's over, so "today not done yet but yesterday was"
+// still counts yesterday's chain.
+export const getCurrentStreak = (
+  completedDates: ReadonlySet<string>,
+  schedule: Schedule,
+  options: StreakEngineOptions = {}
+): number => {
+  const today = getToday(options);
+  const past = getPastCompletions(completedDates, today);
+  if (past.length === 0) return 0;
+
+  if (schedule.type === "every_n_days") {
+    const frozenDates = options.frozenDates ?? new Set<string>();
+    const runs = getIntervalRuns(past, schedule.interval, frozenDates);
+    const lastRun = runs[runs.length - 1];
+    const lastDone = lastRun[lastRun.length - 1];
+    return getUnfrozenGap(lastDone, today, frozenDates) > schedule.interval
+      ? 0
+      : lastRun.length;
+  }
+
+  const walker = getPeriodWalker(completedDates, schedule, today, options);
+  const earliest = walker.periodOf(past[0]);
+  let period = walker.current;
+  let streak = 0;
+
+  // Skip the current period if it isn't done yet
+  if (!walker.isDone(period)) {
+    period = walker.step(period, -1);
+  }
+
+  while (period >= earliest) {
+    if (walker.isScheduled(period)) {
+      if (!walker.isDone(period)) break;
+      streak++;
+    }
+    period = walker.step(period, -1);
+  }
+
+  return streak;
+};
+
+// Start and end period of every chain, oldest first
+export const getStreakRuns = (
+  completedDates: ReadonlySet<string>,
+  schedule: Schedule,
+  options: StreakEngineOptions = {}
+): Array<{ start: string; end: string; length: number }> => {
+  const today = getToday(options);
+  const past = getPastCompletions(completedDates, today);
+  if (past.length === 0) return [];
+
+  if (schedule.type === "every_n_days") {
+    return getIntervalRuns(
+      past,
+      schedule.interval,
+      options.frozenDates ?? new Set()
+    ).map((run) => ({
+      start: run[0],
+      end: run[run.length - 1],
+      length: run.length,
+    }));
+  }
+
+  const walker = getPeriodWalker(completedDates, schedule, today, options);
+  const runs: Array<{ start: string; end: string; length: number }> = [];
+  let current: { start: string; end: string; length: number } | null = null;
+
+  for (
+    let period = walker.periodOf(past[0]);
+    period <= walker.current;
+    period = walker.step(period, 1)
+  ) {
+    if (!walker.isScheduled(period)) continue;
+
+    if (walker.isDone(period)) {
+      if (current) {
+        current.end = period;
+        current.length++;
+      } else {
+        current = { start: period, end: period, length: 1 };
+        runs.push(current);
+      }
+    } else if (period !== walker.current) {
+      current = null;
+    }
+  }
+
+  return runs;
+};
+
+// Longest chain ever reached, in the schedule's unit
+export const getLongestStreak = (
+  completedDates: ReadonlySet<string>,
+  schedule: Schedule,
+  options: StreakEngineOptions = {}
+): number =>
+  getStreakRuns(completedDates, schedule, options).reduce(
+    (longest, run) => Math.max(longest, run.length),
+    0
+  );
+
+// Fraction (0-1) of scheduled periods completed in the last `days` days.
+// The current period only counts once it's done, so an unfinished today
+// doesn't drag the rate down.
+export const getCompletionRate = (
+  completedDates: ReadonlySet<string>,
+  schedule: Schedule,
+  options: CompletionRateOptions
+): number => {
+  const today = getToday(options);
+  let windowStart = addDays(today, -(options.days - 1));
+  if (options.since && options.since > windowStart) {
+    windowStart = options.since;
+  }
+  if (windowStart > today) return 0;
+
+  if (schedule.type === "every_n_days") {
+    const done = Array.from(completedDates).filter(
+      (date) => date >= windowStart && date <= today
+    ).length;
+    const expected = Math.ceil(
+      (daysBetween(windowStart, today) + 1) / schedule.interval
+    );
+    return Math.min(done / expected, 1);
+  }
+
+  const walker = getPeriodWalker(completedDates, schedule, today, options);
+  let scheduled = 0;
+  let done = 0;
+
+  for (
+    let period = walker.periodOf(windowStart);
+    period <= walker.current;
+    period = walker.step(period, 1)
+  ) {
+    if (!walker.isScheduled(period)) continue;
+    const isDone = walker.isDone(period);
+    if (period === walker.current && !isDone) continue;
+    scheduled++;
+    if (isDone) done++;
+  }
+
+  return scheduled === 0 ? 0 : done / scheduled;
+};
+
+// The next calendar date on which the habit needs doing to keep the chain
+export const getNextDueDate = (
+  completedDates: ReadonlySet<string>,
+  schedule: Schedule,
+  options: StreakEngineOptions = {}
+): string => {
+  const today = getToday(options);
+
+  switch (schedule.type) {
+    case "every_n_days": {
+      const past = getPastCompletions(completedDates, today);
+      if (past.length === 0) return today;
+      const due = addDays(past[past.length - 1], schedule.interval);
+      return past[past.length - 1] === today || due > today ? due : today;
+    }
+    case "weekly":
+    case "times_per_week":
+    case "monthly": {
+      const walker = getPeriodWalker(completedDates, schedule, today, options);
+      if (!walker.isDone(walker.current)) {
+        return schedule.type === "times_per_week" && completedDates.has(today)
+          ? addDays(today, 1)
+          : today;
+      }
+      const next = walker.step(walker.current, 1);
+      return schedule.type === "monthly" ? `${next}-01` : next;
+    }
+    default: {
+      const frozenDates = options.frozenDates ?? new Set<string>();
+      let day = today;
+      // A week always contains a scheduled day unless the schedule is empty
+      for (let i = 0; i < 14; i++) {
+        if (
+          isScheduledDay(schedule, day) &&
+          !completedDates.has(day) &&
+          !frozenDates.has(day)
+        ) {
+          break;
+        }
+        day = addDays(day, 1);
+      }
+      return day;
+    }
+  }
+};
+
+export interface StreakStats {
+  current: number;
+  longest: number;
+  totalCompletions: number;
+  // Completion rate (0-1) over the last 30, 90 and 365 days
+  completionRates: { days: number; rate: number }[];
+  // Past and current chains, newest first
+  runs: Array<{ start: string; end: string; length: number }>;
+}
+
+export const STATS_WINDOWS = [30, 90, 365];
+
+// Everything the stats panel shows for a habit, in one pass over its history
+export const getStreakStats = (
+  completedDates: ReadonlySet<string>,
+  schedule: Schedule,
+  options: StreakEngineOptions & { since?: string } = {}
+): StreakStats => {
+  const runs = getStreakRuns(completedDates, schedule, options);
+  return {
+    current: getCurrentStreak(completedDates, schedule, options),
+    longest: runs.reduce((longest, run) => Math.max(longest, run.length), 0),
+    totalCompletions: getPastCompletions(completedDates, getToday(options))
+      .length,
+    completionRates: STATS_WINDOWS.map((days) => ({
+      days,
+      rate: getCompletionRate(completedDates, schedule, { ...options, days }),
+    })),
+    runs: runs.reverse(),
+  };
+};
@@ -0,0 +1,15 @@
+import { createClient } from "@supabase/supabase-js";
+
+// Server-only client with the service role key. It bypasses row level
+// security, so only use it in jobs that act on every user's data (such as
+// sending reminders) and never import it from client components.
+export const createAdminClient = () => {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceRoleKey) {
+    throw new Error("SUPABASE_SERVICE_ROLE_KEY is not set");
+  }
+
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+};
@@ -0,0 +1,215 @@
+// Minimal Web Push sender (RFC 8291 payload encryption with aes128gcm and
+// RFC 8292 VAPID authentication), built on node:crypto. Only the browser
+// vendors' push services are sent to, plus the local stand-in outside
+// production. Server-only.
+//
+// Generate a VAPID key pair once with:
+//   node -e 'const e=require("crypto").createECDH("prime256v1");e.generateKeys();
+//   console.log(e.getPublicKey("base64url"), e.getPrivateKey("base64url"))'
+// and set NEXT_PUBLIC_VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY and VAPID_SUBJECT
+// (a mailto: or https: URL the push service can contact).
+
+import crypto from "node:crypto";
+
+export interface PushSubscriptionKeys {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+export interface PushResult {
+  ok: boolean;
+  status: number;
+  // The push service no longer knows the subscription; it should be deleted
+  isGone: boolean;
+}
+
+// Chrome, Firefox, Safari and Edge
+const PUSH_SERVICE_HOSTS = [
+  /^fcm\.googleapis\.com$/,
+  /^android\.googleapis\.com$/,
+  /(^|\.)push\.services\.mozilla\.com$/,
+  /(^|\.)push\.apple\.com$/,
+  /(^|\.)notify\.windows\.com$/,
+];
+
+const RECORD_SIZE = 4096;
+const TTL_SECONDS = 12 * 60 * 60;
+
+const hmac = (key: Buffer, data: Buffer) =>
+  crypto.createHmac("sha256", key).update(data).digest();
+
+// HKDF with a single output block, which is all Web Push needs
+const hkdf = (salt: Buffer, ikm: Buffer, info: Buffer, length: number) =>
+  hmac(hmac(salt, ikm), Buffer.concat([info, Buffer.from([1])])).subarray(
+    0,
+    length
+  );
+
+// Content encryption key and nonce shared by encryption and decryption
+const deriveKeys = (
+  ecdhSecret: Buffer,
+  authSecret: Buffer,
+  userAgentPublicKey: Buffer,
+  serverPublicKey: Buffer,
+  salt: Buffer
+) => {
+  const keyInfo = Buffer.concat([
+    Buffer.from("WebPush: info\0"),
+    userAgentPublicKey,
+    serverPublicKey,
+  ]);
+  const ikm = hkdf(authSecret, ecdhSecret, keyInfo, 32);
+  return {
+    key: hkdf(salt, ikm, Buffer.from("Content-Encoding: aes128gcm\0"), 16),
+    nonce: hkdf(salt, ikm, Buffer.from("Content-Encoding: nonce\0"), 12),
+  };
+};
+
+// Encrypt a payload for a subscription as a single aes128gcm record
+export const encryptPayload = (
+  payload: string,
+  subscription: Pick<PushSubscriptionKeys, "p256dh" | "auth">
+): Buffer => {
+  const userAgentPublicKey = Buffer.from(subscription.p256dh, "base64url");
+  const ecdh = crypto.createECDH("prime256v1");
+  const serverPublicKey = ecdh.generateKeys();
+  const salt = crypto.randomBytes(16);
+  const { key, nonce } = deriveKeys(
+    ecdh.computeSecret(userAgentPublicKey),
+    Buffer.from(subscription.auth, "base64url"),
+    userAgentPublicKey,
+    serverPublicKey,
+    salt
+  );
+
+  const cipher = crypto.createCipheriv("aes-128-gcm", key, nonce);
+  const ciphertext = Buffer.concat([
+    cipher.update(Buffer.concat([Buffer.from(payload), Buffer.from([2])])),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverPublicKey.length, 20);
+  return Buffer.concat([header, serverPublicKey, ciphertext]);
+};
+
+// Decrypt a payload the way a browser would, given the subscription's
+// private key. Used by the local stand-in push endpoint.
+export const decryptPayload = (
+  body: Buffer,
+  userAgentPrivateKey: string,
+  authSecret: string
+): string => {
+  const salt = body.subarray(0, 16);
+  const idLength = body.readUInt8(20);
+  const serverPublicKey = body.subarray(21, 21 + idLength);
+  const ciphertext = body.subarray(21 + idLength);
+
+  const ecdh = crypto.createECDH("prime256v1");
+  ecdh.setPrivateKey(Buffer.from(userAgentPrivateKey, "base64url"));
+  const { key, nonce } = deriveKeys(
+    ecdh.computeSecret(serverPublicKey),
+    Buffer.from(authSecret, "base64url"),
+    ecdh.getPublicKey(),
+    serverPublicKey,
+    salt
+  );
+
+  const decipher = crypto.createDecipheriv("aes-128-gcm", key, nonce);
+  decipher.setAuthTag(ciphertext.subarray(-16));
+  const plaintext = Buffer.concat([
+    decipher.update(ciphertext.subarray(0, -16)),
+    decipher.final(),
+  ]);
+  // Strip the padding delimiter
+  return plaintext.subarray(0, plaintext.lastIndexOf(2)).toString();
+};
+
+// Signed VAPID token identifying this server to the push service
+const createVapidAuthorization = (endpoint: string): string => {
+  const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  if (!publicKey || !privateKey) {
+    throw new Error("VAPID keys are not configured");
+  }
+
+  const encode = (value: object) =>
+    Buffer.from(JSON.stringify(value)).toString("base64url");
+  const unsigned = `${encode({ typ: "JWT", alg: "ES256" })}.${encode({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(Date.now() / 1000) + TTL_SECONDS,
+    sub: process.env.VAPID_SUBJECT || "mailto:reminders@example.com",
+  })}`;
+
+  const publicKeyBytes = Buffer.from(publicKey, "base64url");
+  const signingKey = crypto.createPrivateKey({
+    key: {
+      kty: "EC",
+      crv: "P-256",
+      d: privateKey,
+      x: publicKeyBytes.subarray(1, 33).toString("base64url"),
+      y: publicKeyBytes.subarray(33, 65).toString("base64url"),
+    },
+    format: "jwk",
+  });
+  const signature = crypto.sign("sha256", Buffer.from(unsigned), {
+    key: signingKey,
+    dsaEncoding: "ieee-p1363",
+  });
+
+  return `vapid t=${unsigned}.${signature.toString("base64url")}, k=${publicKey}`;
+};
+
+// Whether an endpoint belongs to a known push service. Subscriptions come from
+// the browser, and the scheduler must not be pointed at anything else.
+export const isPushServiceEndpoint = (endpoint: string): boolean => {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+  if (
+    process.env.NODE_ENV !== "production" &&
+    url.pathname === "/api/push/dev-endpoint"
+  ) {
+    return true;
+  }
+  return (
+    url.protocol === "https:" &&
+    PUSH_SERVICE_HOSTS.some((host) => host.test(url.hostname))
+  );
+};
+
+export const sendPushNotification = async (
+  subscription: PushSubscriptionKeys,
+  payload: object
+): Promise<PushResult> => {
+  // Saved before endpoints were checked; deleting it is all that's left
+  if (!isPushServiceEndpoint(subscription.endpoint)) {
+    return { ok: false, status: 0, isGone: true };
+  }
+
+  const response = await fetch(subscription.endpoint, {
+    method: "POST",
+    headers: {
+      Authorization: createVapidAuthorization(subscription.endpoint),
+      "Content-Encoding": "aes128gcm",
+      "Content-Type": "application/octet-stream",
+      TTL: String(TTL_SECONDS),
+      Urgency: "normal",
+    },
+    body: new Uint8Array(encryptPayload(JSON.stringify(payload), subscription)),
+    redirect: "manual",
+  });
+
+  return {
+    ok: response.ok,
+    status: response.status,
+    isGone: response.status === 404 || response.status === 410,
+  };
+};
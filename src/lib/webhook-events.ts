@@ -0,0 +1,17 @@
+// Event types webhooks can subscribe to. Kept apart from the dispatcher so
+// the settings dialog can use them without pulling in server code.
+
+export const WEBHOOK_EVENTS = {
+  "check_in.added": "Check-in added",
+  "check_in.removed": "Check-in removed",
+  "streak.milestone": "Streak milestone reached",
+  "streak.broken": "Streak broken",
+};
+
+export type WebhookEventType = keyof typeof WEBHOOK_EVENTS;
+
+export const isWebhookEventType = (value: unknown): value is WebhookEventType =>
+  typeof value === "string" && Object.keys(WEBHOOK_EVENTS).includes(value);
+
+// Streak lengths (in the habit's unit) that send `streak.milestone`
+export const STREAK_MILESTONES = [7, 14, 30, 60, 100, 200, 365, 500, 1000];
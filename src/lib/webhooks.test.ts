@@ -0,0 +1,130 @@
+import crypto from "node:crypto";
+import { describe, expect, it } from "vitest";
+import {
+  getNextAttemptAt,
+  isAllowedWebhookUrl,
+  isPrivateAddress,
+  signPayload,
+} from "@/lib/webhooks";
+
+describe("signPayload", () => {
+  it("is the hex HMAC-SHA256 of <timestamp>.<body>", () => {
+    expect(signPayload("whsec_test", 1760000000, '{"id":"abc"}')).toBe(
+      "c79a5a949f1c5e15d90f6a71dca8826aa964522f1c93fe4ba3c9652fa90f321f"
+    );
+  });
+
+  it("verifies the way receivers are told to", () => {
+    const body = JSON.stringify({ id: "1", type: "check_in.added" });
+    const expected = crypto
+      .createHmac("sha256", "secret")
+      .update(`1700000000.${body}`)
+      .digest("hex");
+    expect(signPayload("secret", 1700000000, body)).toBe(expected);
+  });
+
+  it("changes with the secret, the timestamp and the body", () => {
+    const signature = signPayload("a", 1, "{}");
+    expect(signPayload("b", 1, "{}")).not.toBe(signature);
+    expect(signPayload("a", 2, "{}")).not.toBe(signature);
+    expect(signPayload("a", 1, "{ }")).not.toBe(signature);
+  });
+});
+
+describe("getNextAttemptAt", () => {
+  const now = new Date("2026-03-10T12:00:00Z");
+  const minutesAfter = (attempts: number) =>
+    (getNextAttemptAt(attempts, now)!.getTime() - now.getTime()) / 60000;
+
+  it("backs off after each failed attempt", () => {
+    expect([1, 2, 3, 4, 5].map(minutesAfter)).toEqual([1, 5, 30, 120, 720]);
+  });
+
+  it("gives up after the fifth retry, about 15 hours in", () => {
+    expect(getNextAttemptAt(6, now)).toBeNull();
+    const total = [1, 2, 3, 4, 5]
+      .map(minutesAfter)
+      .reduce((sum, minutes) => sum + minutes, 0);
+    expect(total / 60).toBeCloseTo(14.6, 1);
+  });
+});
+
+describe("isPrivateAddress", () => {
+  it("catches private and reserved IPv4 ranges", () => {
+    for (const address of [
+      "0.0.0.0",
+      "10.1.2.3",
+      "100.64.0.1",
+      "127.0.0.1",
+      "169.254.169.254",
+      "172.16.0.1",
+      "192.0.0.8",
+      "192.0.2.1",
+      "192.168.1.1",
+      "198.18.0.1",
+      "198.19.255.255",
+      "198.51.100.7",
+      "203.0.113.9",
+      "224.0.0.1",
+      "255.255.255.255",
+    ]) {
+      expect(isPrivateAddress(address), address).toBe(true);
+    }
+  });
+
+  it("catches private, mapped and embedded IPv6 addresses", () => {
+    for (const address of [
+      "::",
+      "::1",
+      "::ffff:7f00:1",
+      "::ffff:10.0.0.1",
+      "64:ff9b::a00:1",
+      "2002:a00:1::",
+      "fc00::1",
+      "fd12:3456::1",
+      "fe80::1",
+      "2001:db8::1",
+    ]) {
+      expect(isPrivateAddress(address), address).toBe(true);
+    }
+  });
+
+  it("lets public addresses through", () => {
+    for (const address of [
+      "8.8.8.8",
+      "100.128.0.1",
+      "172.32.0.1",
+      "192.0.3.1",
+      "198.20.0.1",
+      "2606:4700::1111",
+    ]) {
+      expect(isPrivateAddress(address), address).toBe(false);
+    }
+  });
+});
+
+describe("isAllowedWebhookUrl", () => {
+  it("allows public http(s) URLs", () => {
+    expect(isAllowedWebhookUrl("https://example.com/hooks")).toBe(true);
+    expect(isAllowedWebhookUrl("http://93.184.216.34:8080/")).toBe(true);
+  });
+
+  it("refuses other schemes and local hosts", () => {
+    expect(isAllowedWebhookUrl("ftp://example.com/")).toBe(false);
+    expect(isAllowedWebhookUrl("http://localhost:3000/")).toBe(false);
+    expect(isAllowedWebhookUrl("http://api.localhost/")).toBe(false);
+    expect(isAllowedWebhookUrl("http://metadata.google.internal/")).toBe(
+      false
+    );
+    expect(isAllowedWebhookUrl("not a url")).toBe(false);
+  });
+
+  it("refuses private addresses however they're written", () => {
+    expect(isAllowedWebhookUrl("http://127.0.0.1/")).toBe(false);
+    expect(isAllowedWebhookUrl("http://2130706433/")).toBe(false);
+    expect(isAllowedWebhookUrl("http://0x7f.1/")).toBe(false);
+    expect(isAllowedWebhookUrl("http://[::ffff:7f00:1]/")).toBe(false);
+    expect(isAllowedWebhookUrl("http://[::ffff:127.0.0.1]/")).toBe(false);
+    expect(isAllowedWebhookUrl("http://[fd00::1]/")).toBe(false);
+  });
+});
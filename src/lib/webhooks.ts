@@ -0,0 +1,562 @@
+// Webhook dispatcher: turns queued check-in changes and day rollovers into
+// events, and delivers them to users' webhooks as signed JSON, retrying
+// failures with backoff. Meant to run every few minutes from a cron job (see
+// src/app/api/webhooks/dispatch/route.ts). Server-only.
+//
+// Each delivery is a POST of { id, type, created_at, data } with headers:
+//   X-Webhook-Id          the delivery id (the same across retries)
+//   X-Webhook-Event       the event type
+//   X-Webhook-Timestamp   Unix seconds when it was sent
+//   X-Webhook-Signature   sha256=<hex HMAC-SHA256 of "<timestamp>.<body>",
+//                         keyed with the webhook's secret>
+
+import crypto from "node:crypto";
+import { lookup } from "node:dns/promises";
+import { isIP, isIPv4 } from "node:net";
+import type { LookupFunction } from "node:net";
+import { Agent, fetch } from "undici";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { isCheckInComplete } from "@/lib/supabase";
+import type { WebhookData, WebhookDeliveryData } from "@/lib/supabase";
+import { createAdminClient } from "@/lib/supabase-admin";
+import { loadApiHabits, loadCalendar } from "@/lib/habits-api";
+import type { ApiHabit } from "@/lib/habits-api";
+import { getToday } from "@/lib/streak-engine";
+import {
+  STREAK_MILESTONES,
+  WEBHOOK_EVENTS,
+  isWebhookEventType,
+} from "@/lib/webhook-events";
+import type { WebhookEventType } from "@/lib/webhook-events";
+
+export interface WebhookRunResult {
+  events: number;
+  queued: number;
+  delivered: number;
+  failed: number;
+}
+
+// A check-in change queued by the `check_ins_webhook_events` trigger
+interface CheckInChange {
+  id: number;
+  user_id: string;
+  habit_id: string;
+  operation: "insert" | "update" | "delete";
+  period_id: string;
+  value: number | null;
+  old_value: number | null;
+}
+
+interface StreakState {
+  habit_id: string;
+  user_id: string;
+  streak: number;
+  checked_on: string;
+  last_milestone: number | null;
+}
+
+type NewDelivery = Pick<
+  WebhookDeliveryData,
+  "id" | "webhook_id" | "user_id" | "event_type" | "payload"
+>;
+
+// Wait before each retry; a delivery fails for good once these run out
+const RETRY_DELAYS_MS = [1, 5, 30, 120, 720].map(
+  (minutes) => minutes * 60 * 1000
+);
+
+// When a delivery that failed its nth attempt is tried again, or null once
+// the retries have run out
+export const getNextAttemptAt = (attempts: number, now: Date): Date | null => {
+  const delay = RETRY_DELAYS_MS[attempts - 1];
+  return delay === undefined ? null : new Date(now.getTime() + delay);
+};
+
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+const BATCH_SIZE = 500;
+const MAX_URL_LENGTH = 2000;
+
+export const generateWebhookSecret = () =>
+  `whsec_${crypto.randomBytes(24).toString("base64url")}`;
+
+export const signPayload = (secret: string, timestamp: number, body: string) =>
+  crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+
+// Loopback, private, link-local, shared (CGNAT), benchmarking, documentation
+// and other reserved addresses. In IPv6 that's also everything under ::/96,
+// which includes IPv4-mapped addresses like ::ffff:7f00:1, and the prefixes
+// that embed an IPv4 address (NAT64 and 6to4).
+const PRIVATE_IPV6_PATTERN =
+  /^(::.*|f[cd].*|fe[89ab].*|64:ff9b:.*|100::.*|2001:db8:.*|2002:.*)$/;
+
+export const isPrivateAddress = (address: string): boolean => {
+  const ip = address.toLowerCase();
+  if (isIPv4(ip)) {
+    const [a, b, c] = ip.split(".").map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 0 && (c === 0 || c === 2)) ||
+      (a === 192 && b === 88 && c === 99) ||
+      (a === 192 && b === 168) ||
+      (a === 198 && (b === 18 || b === 19)) ||
+      (a === 198 && b === 51 && c === 100) ||
+      (a === 203 && b === 0 && c === 113)
+    );
+  }
+  return PRIVATE_IPV6_PATTERN.test(ip);
+};
+
+// Resolves webhook hosts for the connection itself, refusing private
+// addresses. Checking in a separate lookup first would let a host answer with
+// a public address for the check and a private one for the request.
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { all: true }).then(
+    (addresses) => {
+      if (
+        addresses.length === 0 ||
+        addresses.some(({ address }) => isPrivateAddress(address))
+      ) {
+        callback(
+          new Error(`${hostname} resolves to a private address`),
+          "",
+          0
+        );
+      } else if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    },
+    (err) => callback(err, "", 0)
+  );
+};
+
+const webhookAgent = new Agent({ connect: { lookup: publicOnlyLookup } });
+
+// URL hostnames keep the brackets around IPv6 addresses
+const getHost = (url: URL) =>
+  url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+
+// Webhooks are posted from the server, so they can't point at it or at
+// private networks. Hostnames are checked again once resolved, when sending.
+export const isAllowedWebhookUrl = (value: string): boolean => {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+  const host = getHost(url);
+  return (
+    (url.protocol === "https:" || url.protocol === "http:") &&
+    host !== "localhost" &&
+    !host.endsWith(".localhost") &&
+    !host.endsWith(".internal") &&
+    !(isIP(host) && isPrivateAddress(host))
+  );
+};
+
+// Validates a webhook body from the settings dialog; an update can leave out
+// any field
+export const parseWebhookInput = (
+  body: Record<string, unknown>,
+  isUpdate: boolean
+): {
+  values: Partial<Pick<WebhookData, "url" | "events" | "enabled">>;
+  errors: string[];
+} => {
+  const values: Partial<Pick<WebhookData, "url" | "events" | "enabled">> = {};
+  const errors: string[] = [];
+  const allowed = ["url", "events", ...(isUpdate ? ["enabled"] : [])];
+
+  for (const key of Object.keys(body)) {
+    if (!allowed.includes(key)) errors.push(`Unknown field: ${key}`);
+  }
+
+  if ("url" in body || !isUpdate) {
+    const url = typeof body.url === "string" ? body.url.trim() : "";
+    if (url.length > MAX_URL_LENGTH || !isAllowedWebhookUrl(url)) {
+      errors.push("url must be a public http(s) URL");
+    } else {
+      values.url = url;
+    }
+  }
+  if ("events" in body || !isUpdate) {
+    const events = body.events;
+    if (
+      !Array.isArray(events) ||
+      events.length === 0 ||
+      !events.every(isWebhookEventType)
+    ) {
+      errors.push(
+        `events must be a list of: ${Object.keys(WEBHOOK_EVENTS).join(", ")}`
+      );
+    } else {
+      values.events = Array.from(new Set(events));
+    }
+  }
+  if ("enabled" in body) {
+    if (typeof body.enabled !== "boolean") {
+      errors.push("enabled must be true or false");
+    } else {
+      values.enabled = body.enabled;
+    }
+  }
+  return { values, errors };
+};
+
+// Add a delivery of an event to each of the user's webhooks subscribed to it
+const queueEvent = (
+  deliveries: NewDelivery[],
+  webhooks: WebhookData[],
+  userId: string,
+  type: WebhookEventType,
+  data: Record<string, unknown>
+) => {
+  const payload = {
+    id: crypto.randomUUID(),
+    type,
+    created_at: new Date().toISOString(),
+    data,
+  };
+  for (const webhook of webhooks) {
+    if (webhook.user_id !== userId || !webhook.events.includes(type)) {
+      continue;
+    }
+    deliveries.push({
+      id: crypto.randomUUID(),
+      webhook_id: webhook.id,
+      user_id: userId,
+      event_type: type,
+      payload,
+    });
+  }
+};
+
+const loadStates = async (supabase: SupabaseClient, habitIds: string[]) => {
+  const { data, error } = await supabase
+    .from("webhook_streak_states")
+    .select("*")
+    .in("habit_id", habitIds);
+  if (error) throw error;
+  return new Map<string, StreakState>(
+    (data ?? []).map((state) => [state.habit_id, state])
+  );
+};
+
+// The last milestone sent for the habit's current chain. Once the streak
+// drops below it, by a missed day or an undone check-in, it can be reached
+// (and sent) again.
+const getLastMilestone = (habit: ApiHabit, state?: StreakState) =>
+  state?.last_milestone != null &&
+  habit.streak.current >= state.last_milestone
+    ? state.last_milestone
+    : null;
+
+// The milestone a habit just reached, if it hasn't been sent for this run
+// of the chain yet
+const getNewMilestone = (habit: ApiHabit, state?: StreakState) =>
+  STREAK_MILESTONES.includes(habit.streak.current) &&
+  getLastMilestone(habit, state) !== habit.streak.current
+    ? habit.streak.current
+    : null;
+
+// check_in.added / check_in.removed for changes that complete or un-complete
+// a period, and streak.milestone when one of them reaches a milestone
+const collectCheckInEvents = async (
+  supabase: SupabaseClient,
+  webhooks: WebhookData[],
+  deliveries: NewDelivery[],
+  result: WebhookRunResult
+) => {
+  const { data, error } = await supabase
+    .from("webhook_events")
+    .select("*")
+    .order("id", { ascending: true })
+    .limit(BATCH_SIZE);
+  if (error) throw error;
+  const changes: CheckInChange[] = data ?? [];
+  if (changes.length === 0) return;
+  result.events += changes.length;
+
+  // Habits are read once, after all of their changes
+  const habits = new Map<string, ApiHabit | undefined>();
+  for (const change of changes) {
+    if (habits.has(change.habit_id)) continue;
+    const [habit] = await loadApiHabits(supabase, change.user_id, {
+      id: change.habit_id,
+    });
+    habits.set(change.habit_id, habit);
+  }
+  const states = await loadStates(supabase, Array.from(habits.keys()));
+  const completedHabits = new Set<string>();
+
+  for (const change of changes) {
+    // Deleted habits take their check-ins with them; those aren't events
+    const habit = habits.get(change.habit_id);
+    if (!habit) continue;
+
+    const isComplete =
+      change.operation !== "delete" &&
+      isCheckInComplete({ value: change.value }, habit.target);
+    const wasComplete =
+      change.operation !== "insert" &&
+      isCheckInComplete({ value: change.old_value }, habit.target);
+    if (isComplete === wasComplete) continue;
+
+    queueEvent(
+      deliveries,
+      webhooks,
+      change.user_id,
+      isComplete ? "check_in.added" : "check_in.removed",
+      {
+        habit,
+        check_in: { period: change.period_id, value: change.value },
+      }
+    );
+    if (isComplete) completedHabits.add(habit.id);
+  }
+
+  // Every changed habit's milestone is kept up to date, whether or not its
+  // owner is subscribed to milestones
+  const updatedStates: StreakState[] = [];
+  for (const [habitId, habit] of habits) {
+    if (!habit) continue;
+    const state = states.get(habitId);
+    const milestone = completedHabits.has(habitId)
+      ? getNewMilestone(habit, state)
+      : null;
+    const lastMilestone = milestone ?? getLastMilestone(habit, state);
+    if (lastMilestone === (state?.last_milestone ?? null)) continue;
+
+    const userId = changes.find((change) => change.habit_id === habitId)!
+      .user_id;
+    if (milestone) {
+      queueEvent(deliveries, webhooks, userId, "streak.milestone", {
+        habit,
+        milestone,
+      });
+    }
+    updatedStates.push({
+      habit_id: habitId,
+      user_id: userId,
+      // Resets leave the streak for collectBrokenStreaks to compare at the
+      // day's end
+      streak: state && !milestone ? state.streak : habit.streak.current,
+      checked_on: state?.checked_on ?? "",
+      last_milestone: lastMilestone,
+    });
+  }
+  if (updatedStates.length > 0) {
+    const { error: stateError } = await supabase
+      .from("webhook_streak_states")
+      .upsert(updatedStates);
+    if (stateError) throw stateError;
+  }
+
+  const { error: deleteError } = await supabase
+    .from("webhook_events")
+    .delete()
+    .lte("id", changes[changes.length - 1].id);
+  if (deleteError) throw deleteError;
+};
+
+// streak.broken for chains that were running when the user's previous day
+// ended and aren't any more
+const collectBrokenStreaks = async (
+  supabase: SupabaseClient,
+  webhooks: WebhookData[],
+  deliveries: NewDelivery[]
+) => {
+  const userIds = Array.from(
+    new Set(
+      webhooks
+        .filter((webhook) => webhook.events.includes("streak.broken"))
+        .map((webhook) => webhook.user_id)
+    )
+  );
+
+  for (const userId of userIds) {
+    const [habits, calendar] = await Promise.all([
+      loadApiHabits(supabase, userId),
+      loadCalendar(supabase, userId),
+    ]);
+    if (habits.length === 0) continue;
+    const today = getToday(calendar);
+    const states = await loadStates(
+      supabase,
+      habits.map((habit) => habit.id)
+    );
+
+    const updatedStates = habits.map((habit): StreakState => {
+      const state = states.get(habit.id);
+      if (
+        state &&
+        state.checked_on !== today &&
+        state.streak > 0 &&
+        habit.streak.current === 0
+      ) {
+        queueEvent(deliveries, webhooks, userId, "streak.broken", {
+          habit,
+          previous_streak: state.streak,
+        });
+      }
+      return {
+        habit_id: habit.id,
+        user_id: userId,
+        streak: habit.streak.current,
+        checked_on: today,
+        last_milestone: getLastMilestone(habit, state),
+      };
+    });
+
+    const { error } = await supabase
+      .from("webhook_streak_states")
+      .upsert(updatedStates);
+    if (error) throw error;
+  }
+};
+
+// POST one delivery, signed with the webhook's secret
+export const sendDelivery = async (
+  webhook: Pick<WebhookData, "url" | "secret">,
+  delivery: Pick<WebhookDeliveryData, "id" | "event_type" | "payload">
+): Promise<{ ok: boolean; status: number | null; error: string | null }> => {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  try {
+    // Addresses in the URL itself aren't looked up, so they're checked here
+    if (!isAllowedWebhookUrl(webhook.url)) {
+      return { ok: false, status: null, error: "URL is not allowed" };
+    }
+    const response = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "DontBreakTheChain-Webhooks/1.0",
+        "X-Webhook-Id": delivery.id,
+        "X-Webhook-Event": delivery.event_type,
+        "X-Webhook-Timestamp": String(timestamp),
+        "X-Webhook-Signature": `sha256=${signPayload(
+          webhook.secret,
+          timestamp,
+          body
+        )}`,
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      dispatcher: webhookAgent,
+    });
+    return {
+      ok: response.ok,
+      status: response.status,
+      error: response.ok ? null : `HTTP ${response.status}`,
+    };
+  } catch (err) {
+    // fetch only says "fetch failed"; the cause says why
+    const { message, cause } = err as Error & { cause?: Error };
+    return { ok: false, status: null, error: cause?.message ?? message };
+  }
+};
+
+// Attempt every delivery that's due, scheduling retries for failures
+const sendDueDeliveries = async (
+  supabase: SupabaseClient,
+  now: Date,
+  result: WebhookRunResult
+) => {
+  const { data, error } = await supabase
+    .from("webhook_deliveries")
+    .select("*")
+    .eq("status", "pending")
+    .lte("next_attempt_at", now.toISOString())
+    .order("next_attempt_at", { ascending: true })
+    .limit(BATCH_SIZE);
+  if (error) throw error;
+  const deliveries: WebhookDeliveryData[] = data ?? [];
+  if (deliveries.length === 0) return;
+
+  const { data: webhooks, error: webhooksError } = await supabase
+    .from("webhooks")
+    .select("id, url, secret, enabled")
+    .in("id", Array.from(new Set(deliveries.map((d) => d.webhook_id))));
+  if (webhooksError) throw webhooksError;
+
+  for (const delivery of deliveries) {
+    const webhook = webhooks?.find((w) => w.id === delivery.webhook_id);
+    const attempts = delivery.attempts + 1;
+    let update: Partial<WebhookDeliveryData>;
+
+    if (!webhook?.enabled) {
+      update = { status: "failed", last_error: "Webhook turned off" };
+    } else {
+      const response = await sendDelivery(webhook, delivery);
+      const nextAttemptAt = getNextAttemptAt(attempts, new Date());
+      update = {
+        attempts,
+        response_status: response.status,
+        last_error: response.error,
+      };
+      if (response.ok) {
+        update.status = "delivered";
+        update.delivered_at = new Date().toISOString();
+      } else if (!nextAttemptAt) {
+        update.status = "failed";
+      } else {
+        update.next_attempt_at = nextAttemptAt.toISOString();
+      }
+    }
+
+    if (update.status === "delivered") result.delivered++;
+    if (update.status === "failed") result.failed++;
+    const { error: updateError } = await supabase
+      .from("webhook_deliveries")
+      .update(update)
+      .eq("id", delivery.id);
+    if (updateError) {
+      console.error("Error recording webhook delivery:", updateError);
+    }
+  }
+};
+
+export const runWebhooks = async (
+  now: Date = new Date()
+): Promise<WebhookRunResult> => {
+  const supabase = createAdminClient();
+  const result: WebhookRunResult = {
+    events: 0,
+    queued: 0,
+    delivered: 0,
+    failed: 0,
+  };
+
+  const { data: webhooks, error } = await supabase
+    .from("webhooks")
+    .select("*")
+    .eq("enabled", true);
+  if (error) throw error;
+
+  const deliveries: NewDelivery[] = [];
+  await collectCheckInEvents(supabase, webhooks ?? [], deliveries, result);
+  await collectBrokenStreaks(supabase, webhooks ?? [], deliveries);
+  if (deliveries.length > 0) {
+    const { error: insertError } = await supabase
+      .from("webhook_deliveries")
+      .insert(deliveries);
+    if (insertError) throw insertError;
+    result.queued = deliveries.length;
+  }
+
+  await sendDueDeliveries(supabase, now, result);
+  return result;
+};
@@ -0,0 +1,69 @@
+import { createServerClient } from "@supabase/ssr";
+import { isAuthRetryableFetchError } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { getLoginPath, getSafeNextPath } from "@/lib/auth-redirects";
+
+// Runs before the app's pages (Next's middleware, now called proxy): refreshes
+// the Supabase session cookies and sends signed-out visitors to /login and
+// signed-in ones away from it, before anything renders.
+
+const redirectTo = (
+  request: NextRequest,
+  response: NextResponse,
+  path: string
+) => {
+  const redirect = NextResponse.redirect(new URL(path, request.url));
+  // Keep a refreshed session
+  response.cookies.getAll().forEach((cookie) => redirect.cookies.set(cookie));
+  return redirect;
+};
+
+export async function proxy(request: NextRequest) {
+  let response = NextResponse.next({ request });
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return request.cookies.getAll();
+        },
+        setAll(cookiesToSet) {
+          // Pages rendered for this request and the browser both need the
+          // new session
+          cookiesToSet.forEach(({ name, value }) =>
+            request.cookies.set(name, value)
+          );
+          response = NextResponse.next({ request });
+          cookiesToSet.forEach(({ name, value, options }) =>
+            response.cookies.set(name, value, options)
+          );
+        },
+      },
+    }
+  );
+
+  // Verifies the session, refreshing it first if it has expired
+  const { data, error } = await supabase.auth.getClaims();
+  // Don't sign anyone out because Supabase couldn't be reached; the page
+  // checks again in the browser
+  if (error && isAuthRetryableFetchError(error)) return response;
+
+  const isSignedIn = !!data?.claims;
+  const { pathname, search, searchParams } = request.nextUrl;
+  if (pathname === "/" && !isSignedIn) {
+    // Come back with the query, e.g. a reminder's "Mark done"
+    return redirectTo(request, response, getLoginPath(`/${search}`));
+  }
+  if (pathname === "/login" && isSignedIn) {
+    const next = getSafeNextPath(searchParams.get("next"));
+    return redirectTo(request, response, next);
+  }
+  return response;
+}
+
+export const config = {
+  matcher: ["/", "/login"],
+};
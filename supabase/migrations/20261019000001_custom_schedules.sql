@@ -0,0 +1,5 @@
+-- Custom cadences: `frequency` now holds the schedule type
+-- (daily, weekly, times_per_week, weekdays, every_n_days, monthly) and
+-- `schedule` holds its parameters, e.g. {"times": 3} or {"days": [1, 3, 5]}.
+alter table public.streaks
+  add column if not exists schedule jsonb;
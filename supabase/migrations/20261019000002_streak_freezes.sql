@@ -0,0 +1,6 @@
+-- Streak freezes: periods marked as rest days bridge a gap in the chain
+-- without counting as completions. `freeze_allowance` caps how many
+-- freezes a habit can use per calendar month.
+alter table public.streaks
+  add column if not exists frozen_dates text[] not null default '{}',
+  add column if not exists freeze_allowance integer not null default 2;
@@ -0,0 +1,7 @@
+-- Quantitative habits: `target` is the amount (in `unit`) needed per period
+-- and `quantities` maps each period identifier to the amount recorded.
+-- `completed_dates` still lists the periods where the target was met.
+alter table public.streaks
+  add column if not exists unit text,
+  add column if not exists target numeric,
+  add column if not exists quantities jsonb not null default '{}';
@@ -0,0 +1,20 @@
+-- Replace the plain `completed_dates` array with per-entry records so a
+-- check-in can carry a note and the time it was made:
+--   [{"date": "2026-03-09", "note": "ran 5k in the rain", "created_at": "..."}]
+alter table public.streaks
+  add column if not exists entries jsonb not null default '[]';
+
+update public.streaks
+set entries = coalesce(
+  (
+    select jsonb_agg(
+      jsonb_build_object('date', d, 'note', null, 'created_at', updated_at)
+    )
+    from unnest(completed_dates) as d
+  ),
+  '[]'::jsonb
+)
+where entries = '[]'::jsonb;
+
+alter table public.streaks
+  drop column if exists completed_dates;
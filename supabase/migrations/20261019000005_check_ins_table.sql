@@ -0,0 +1,48 @@
+-- Store check-ins as individual rows instead of rewriting an array on the
+-- habit for every toggle. Each toggle is now a single insert or delete, and
+-- clients can load just the periods they display.
+create table if not exists public.check_ins (
+  id uuid primary key default gen_random_uuid(),
+  habit_id uuid not null references public.streaks (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  period_id text not null,
+  value numeric,
+  note text,
+  created_at timestamptz not null default now(),
+  unique (habit_id, period_id)
+);
+
+create index if not exists check_ins_user_period_idx
+  on public.check_ins (user_id, period_id);
+
+alter table public.check_ins enable row level security;
+
+create policy "Users manage their own check-ins"
+  on public.check_ins
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Migrate existing entries (with their notes) and recorded quantities
+insert into public.check_ins (habit_id, user_id, period_id, value, note, created_at)
+select
+  s.id,
+  s.user_id,
+  e.entry ->> 'date',
+  (s.quantities ->> (e.entry ->> 'date'))::numeric,
+  e.entry ->> 'note',
+  coalesce((e.entry ->> 'created_at')::timestamptz, s.updated_at)
+from public.streaks s
+cross join lateral jsonb_array_elements(s.entries) as e (entry)
+on conflict (habit_id, period_id) do nothing;
+
+-- Partial progress on quantitative habits that never reached the target
+insert into public.check_ins (habit_id, user_id, period_id, value, created_at)
+select s.id, s.user_id, q.key, q.value::numeric, s.updated_at
+from public.streaks s
+cross join lateral jsonb_each_text(s.quantities) as q
+on conflict (habit_id, period_id) do nothing;
+
+alter table public.streaks
+  drop column if exists entries,
+  drop column if exists quantities;
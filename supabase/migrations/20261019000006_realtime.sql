@@ -0,0 +1,4 @@
+-- Broadcast habit and check-in changes so open sessions on other devices
+-- stay in sync. Row level security still limits each subscriber to their
+-- own rows.
+alter publication supabase_realtime add table public.streaks, public.check_ins;
@@ -0,0 +1,20 @@
+-- Per-user settings that decide which calendar day a completion belongs to:
+-- a home timezone, so days don't shift when travelling, and the hour a new
+-- day starts for people whose day runs past midnight.
+create table if not exists public.profiles (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  time_zone text not null default 'UTC',
+  day_start_hour smallint not null default 0
+    check (day_start_hour between 0 and 23),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.profiles enable row level security;
+
+create policy "Users manage their own profile"
+  on public.profiles
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+alter publication supabase_realtime add table public.profiles;
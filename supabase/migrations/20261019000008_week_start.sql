@@ -0,0 +1,60 @@
+-- Configurable first day of the week (0 = Sunday, 1 = Monday, 6 = Saturday).
+-- Weekly habits store each check-in under the first day of its week, and
+-- existing rows use Mondays, so Monday stays the default.
+alter table public.profiles
+  add column if not exists week_start smallint not null default 1
+    check (week_start between 0 and 6);
+
+-- Change the caller's week start and move their stored week identifiers
+-- (weekly check-ins and week freezes) to the first day of the new weeks, so
+-- no history is lost. Each old week maps to the new week containing its
+-- first day, which is the same number of days earlier for every week.
+create or replace function public.set_week_start(new_week_start smallint)
+returns void
+language plpgsql
+security invoker
+as $$
+declare
+  old_week_start smallint;
+  shift integer;
+begin
+  if new_week_start not between 0 and 6 then
+    raise exception 'week start must be between 0 and 6';
+  end if;
+
+  insert into public.profiles (user_id)
+  values (auth.uid())
+  on conflict (user_id) do nothing;
+
+  select week_start into old_week_start
+  from public.profiles
+  where user_id = auth.uid()
+  for update;
+
+  shift := ((old_week_start - new_week_start) % 7 + 7) % 7;
+  if shift = 0 then
+    return;
+  end if;
+
+  -- Identifiers are 7 days apart and all move by less than 7 days, so the
+  -- (habit_id, period_id) constraint never sees a collision
+  update public.check_ins c
+  set period_id = to_char(c.period_id::date - shift, 'YYYY-MM-DD')
+  from public.streaks s
+  where s.id = c.habit_id
+    and s.user_id = auth.uid()
+    and s.frequency = 'weekly';
+
+  update public.streaks
+  set frozen_dates = array(
+    select to_char(d::date - shift, 'YYYY-MM-DD')
+    from unnest(frozen_dates) as d
+  )
+  where user_id = auth.uid()
+    and frequency = 'weekly';
+
+  update public.profiles
+  set week_start = new_week_start, updated_at = now()
+  where user_id = auth.uid();
+end;
+$$;
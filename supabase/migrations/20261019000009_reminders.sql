@@ -0,0 +1,28 @@
+-- Per-habit reminders: a local time of day (in the user's home timezone)
+-- after which a push notification is sent if the habit is still due.
+-- `last_reminded_on` is the day a reminder was last sent, so each day gets
+-- at most one.
+alter table public.streaks
+  add column if not exists reminder_time time,
+  add column if not exists last_reminded_on text;
+
+-- Web Push subscriptions, one per browser the user enabled reminders in
+create table if not exists public.push_subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  endpoint text not null unique,
+  p256dh text not null,
+  auth text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists push_subscriptions_user_idx
+  on public.push_subscriptions (user_id);
+
+alter table public.push_subscriptions enable row level security;
+
+create policy "Users manage their own push subscriptions"
+  on public.push_subscriptions
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,6 @@
+-- Opt-in public links: habits with a `public_slug` get a read-only page at
+-- /s/<slug>. The page is rendered on the server, which reads the habit
+-- with the service role, so no public row level security policy is needed.
+alter table public.streaks
+  add column if not exists public_slug text unique
+    check (public_slug ~ '^[a-z0-9-]{6,64}$');
@@ -0,0 +1,7 @@
+-- Calendar feed: profiles with a `calendar_token` publish their completed
+-- periods as an iCalendar feed at /api/calendar/<token>.ics. The feed is
+-- read with the service role, so the token is the only thing protecting it;
+-- replacing or clearing it revokes old subscriptions.
+alter table public.profiles
+  add column if not exists calendar_token text unique
+    check (calendar_token ~ '^[a-f0-9]{32}$');
@@ -0,0 +1,5 @@
+-- Archived habits: deleting from the main list now sets `archived_at`, which
+-- hides the habit but keeps its check-ins so it can be restored. Habits are
+-- only removed for good from the archived view.
+alter table public.streaks
+  add column if not exists archived_at timestamptz;
@@ -0,0 +1,27 @@
+-- Personal API tokens for scripts and automations. Only a SHA-256 hash of
+-- each token is stored, plus its first characters (`prefix`) so tokens can
+-- be told apart. `access` is 'read' or 'write'; `habit_ids` limits a token
+-- to those habits (null means all of them). Requests with a token are
+-- checked with the service role, which also records `last_used_at`.
+create table if not exists public.api_tokens (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 100),
+  token_hash text not null unique,
+  prefix text not null,
+  access text not null default 'read' check (access in ('read', 'write')),
+  habit_ids uuid[],
+  last_used_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists api_tokens_user_idx
+  on public.api_tokens (user_id);
+
+alter table public.api_tokens enable row level security;
+
+create policy "Users manage their own API tokens"
+  on public.api_tokens
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,140 @@
+-- Outgoing webhooks: users register endpoints for event types, and a cron
+-- job (/api/webhooks/dispatch) posts HMAC-signed JSON to them, retrying
+-- failures with backoff. Every attempt is kept in `webhook_deliveries`.
+create table if not exists public.webhooks (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  url text not null check (url ~ '^https?://'),
+  events text[] not null check (
+    cardinality(events) > 0 and events <@ array[
+      'check_in.added',
+      'check_in.removed',
+      'streak.milestone',
+      'streak.broken'
+    ]
+  ),
+  -- Signs each delivery; shown to the owner so they can verify signatures
+  secret text not null,
+  enabled boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists webhooks_user_idx on public.webhooks (user_id);
+
+alter table public.webhooks enable row level security;
+
+create policy "Users manage their own webhooks"
+  on public.webhooks
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create table if not exists public.webhook_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  webhook_id uuid not null references public.webhooks (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  event_type text not null,
+  payload jsonb not null,
+  status text not null default 'pending'
+    check (status in ('pending', 'delivered', 'failed')),
+  attempts integer not null default 0,
+  next_attempt_at timestamptz not null default now(),
+  response_status integer,
+  last_error text,
+  created_at timestamptz not null default now(),
+  delivered_at timestamptz
+);
+
+create index if not exists webhook_deliveries_pending_idx
+  on public.webhook_deliveries (next_attempt_at)
+  where status = 'pending';
+
+create index if not exists webhook_deliveries_webhook_idx
+  on public.webhook_deliveries (webhook_id, created_at desc);
+
+alter table public.webhook_deliveries enable row level security;
+
+-- Only the dispatcher (service role) writes deliveries
+create policy "Users read their own webhook deliveries"
+  on public.webhook_deliveries
+  for select
+  using (auth.uid() = user_id);
+
+-- Check-in changes waiting for the dispatcher, queued by the trigger below
+-- for users with an enabled webhook. Service role only.
+create table if not exists public.webhook_events (
+  id bigint generated always as identity primary key,
+  user_id uuid not null,
+  habit_id uuid not null,
+  operation text not null check (operation in ('insert', 'update', 'delete')),
+  period_id text not null,
+  value numeric,
+  old_value numeric,
+  occurred_at timestamptz not null default now()
+);
+
+alter table public.webhook_events enable row level security;
+
+create or replace function public.queue_webhook_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  changed public.check_ins;
+  amount numeric;
+  previous_amount numeric;
+begin
+  if tg_op = 'INSERT' then
+    changed := new;
+    amount := new.value;
+  elsif tg_op = 'UPDATE' then
+    -- Only amounts matter to events; notes and moved weeks don't
+    if new.value is not distinct from old.value then
+      return null;
+    end if;
+    changed := new;
+    amount := new.value;
+    previous_amount := old.value;
+  else
+    changed := old;
+    previous_amount := old.value;
+  end if;
+
+  if exists (
+    select 1 from public.webhooks
+    where user_id = changed.user_id and enabled
+  ) then
+    insert into public.webhook_events
+      (user_id, habit_id, operation, period_id, value, old_value)
+    values (
+      changed.user_id,
+      changed.habit_id,
+      lower(tg_op),
+      changed.period_id,
+      amount,
+      previous_amount
+    );
+  end if;
+  return null;
+end;
+$$;
+
+create trigger check_ins_webhook_events
+  after insert or update or delete on public.check_ins
+  for each row execute function public.queue_webhook_event();
+
+-- Each habit's streak as last seen by the dispatcher, used to notice a
+-- chain breaking at day rollover and to send each milestone once per run of
+-- the chain. Service role only.
+create table if not exists public.webhook_streak_states (
+  habit_id uuid primary key references public.streaks (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  streak integer not null default 0,
+  -- The owner's day the streak was last checked on (YYYY-MM-DD)
+  checked_on text not null,
+  last_milestone integer
+);
+
+alter table public.webhook_streak_states enable row level security;
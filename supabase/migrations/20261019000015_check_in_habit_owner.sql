@@ -0,0 +1,22 @@
+-- Check-ins could be written into any habit whose id was known, since the
+-- policy only compared `user_id`. Require the habit to be the caller's too,
+-- and remove check-ins that were written into someone else's habit.
+drop policy if exists "Users manage their own check-ins" on public.check_ins;
+
+create policy "Users manage their own check-ins"
+  on public.check_ins
+  for all
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.streaks
+      where streaks.id = check_ins.habit_id
+        and streaks.user_id = auth.uid()
+    )
+  );
+
+delete from public.check_ins
+using public.streaks
+where streaks.id = check_ins.habit_id
+  and streaks.user_id <> check_ins.user_id;
@@ -0,0 +1,14 @@
+-- Webhook URLs are checked by the API before they're saved, but the policy
+-- let users write rows directly and skip that. Users now only read and delete
+-- their webhooks; the API adds and edits them with the service role.
+drop policy if exists "Users manage their own webhooks" on public.webhooks;
+
+create policy "Users read their own webhooks"
+  on public.webhooks
+  for select
+  using (auth.uid() = user_id);
+
+create policy "Users delete their own webhooks"
+  on public.webhooks
+  for delete
+  using (auth.uid() = user_id);